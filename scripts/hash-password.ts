@@ -0,0 +1,15 @@
+import bcrypt from 'bcryptjs';
+
+// Usage: npm run hash-password -- <password>
+// Prints a bcrypt hash to put in ADMIN_PASSWORD_HASH.
+async function hashPassword() {
+  const password = process.argv[2];
+  if (!password) {
+    console.error('Usage: npm run hash-password -- <password>');
+    process.exit(1);
+  }
+
+  console.log(await bcrypt.hash(password, 12));
+}
+
+hashPassword();
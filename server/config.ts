@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import path from 'path';
+import type { MenuStoreKind } from './lib/menu-repository';
+import type { MailTransportKind } from './lib/mailer';
+
+// Server configuration, read once from the environment (.env is loaded in development)
+export const serverConfig = {
+  port: Number(process.env.PORT) || 3001,
+  dataDir: path.resolve(process.env.DATA_DIR || 'data'),
+  clientOrigin: process.env.CLIENT_ORIGIN || 'http://localhost:8080',
+  // Built site to serve next to /api, so one deploy hosts both (empty when the site is hosted elsewhere)
+  clientDir: process.env.CLIENT_DIR ? path.resolve(process.env.CLIENT_DIR) : '',
+  orderNumberPrefix: process.env.ORDER_NUMBER_PREFIX || 'JT',
+  // Bootstrap owner account, created on first start when no staff exist.
+  // ADMIN_PASSWORD_HASH is a bcrypt hash (generate with `npm run hash-password`).
+  adminUsername: process.env.ADMIN_USERNAME || 'owner',
+  adminPasswordHash: process.env.ADMIN_PASSWORD_HASH || '',
+  sessionTtlHours: Number(process.env.SESSION_TTL_HOURS) || 12,
+  secureCookies: process.env.NODE_ENV === 'production',
+  // Menu storage backend: github commits src/data/menu-items.ts, file keeps menu.json in DATA_DIR,
+  // memory is for tests. Defaults to github when a token is set.
+  menuStore: (process.env.MENU_STORE || (process.env.GITHUB_TOKEN ? 'github' : 'file')) as MenuStoreKind,
+  // Never exposed to the browser
+  githubToken: process.env.GITHUB_TOKEN || '',
+  githubRepo: process.env.GITHUB_REPO || 'ji-hus/MyJiliciousTreatsSite',
+  // Customer emails: sendgrid delivers them, mock only writes them to outbox.json
+  // in DATA_DIR. Defaults to sendgrid when an API key is set.
+  mailTransport: (process.env.MAIL_TRANSPORT || (process.env.SENDGRID_API_KEY ? 'sendgrid' : 'mock')) as MailTransportKind,
+  sendgridApiKey: process.env.SENDGRID_API_KEY || '',
+  mailFrom: process.env.MAIL_FROM || 'myjilicioustreats@gmail.com',
+};
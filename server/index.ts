@@ -0,0 +1,42 @@
+import path from 'path';
+import express from 'express';
+import cors from 'cors';
+import cookieParser from 'cookie-parser';
+import { serverConfig } from './config';
+import { errorHandler } from './lib/errors';
+import { authRouter } from './routes/auth';
+import { ingredientsRouter } from './routes/ingredients';
+import { menuRouter } from './routes/menu';
+import { ordersRouter } from './routes/orders';
+import { scheduleRouter } from './routes/schedule';
+import { staffRouter } from './routes/staff';
+import { ensureOwnerAccount } from './services/staff';
+
+const app = express();
+
+app.use(cors({ origin: serverConfig.clientOrigin, credentials: true }));
+app.use(express.json());
+app.use(cookieParser());
+
+app.use('/api/auth', authRouter);
+app.use('/api/ingredients', ingredientsRouter);
+app.use('/api/menu', menuRouter);
+app.use('/api/orders', ordersRouter);
+app.use('/api/schedule', scheduleRouter);
+app.use('/api/staff', staffRouter);
+
+if (serverConfig.clientDir) {
+  app.use(express.static(serverConfig.clientDir));
+  // Client-side routes all load the app; unknown /api paths still 404
+  app.get(/^\/(?!api\/).*/, (_req, res) => {
+    res.sendFile(path.join(serverConfig.clientDir, 'index.html'));
+  });
+}
+
+app.use(errorHandler);
+
+await ensureOwnerAccount();
+
+app.listen(serverConfig.port, () => {
+  console.log(`Order API listening on http://localhost:${serverConfig.port}`);
+});
@@ -0,0 +1,42 @@
+import type { CookieOptions, RequestHandler, Response } from 'express';
+import type { Permission, StaffUser } from '../../src/types/auth';
+import { hasPermission } from '../../src/lib/permissions';
+import { findSession } from '../services/auth';
+import { serverConfig } from '../config';
+import { HttpError } from './errors';
+
+export const SESSION_COOKIE = 'jt_session';
+
+export const sessionCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: serverConfig.secureCookies,
+  path: '/api',
+  maxAge: serverConfig.sessionTtlHours * 60 * 60 * 1000,
+});
+
+// The staff member attached by requireAuth
+export const currentUser = (res: Response): StaffUser => res.locals.user;
+
+export const assertPermission = (user: StaffUser, permission: Permission) => {
+  if (!hasPermission(user.role, permission)) {
+    throw new HttpError(403, 'You do not have permission to do that');
+  }
+};
+
+// Rejects the request unless it carries a valid, unexpired staff session
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  const found = await findSession(req.cookies?.[SESSION_COOKIE]);
+  if (!found) {
+    throw new HttpError(401, 'Not signed in');
+  }
+  res.locals.session = found.session;
+  res.locals.user = found.user;
+  next();
+};
+
+// Use after requireAuth
+export const requirePermission = (permission: Permission): RequestHandler => (_req, res, next) => {
+  assertPermission(currentUser(res), permission);
+  next();
+};
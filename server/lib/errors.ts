@@ -0,0 +1,20 @@
+import type { ErrorRequestHandler } from 'express';
+
+// Error carrying the HTTP status the API should respond with, plus any extra
+// fields the client needs to recover (sent alongside `error`)
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const errorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ ...error.details, error: error.message });
+    return;
+  }
+
+  console.error('Unhandled API error:', error);
+  res.status(500).json({ error: 'Internal server error' });
+};
@@ -0,0 +1,54 @@
+import { serverConfig } from '../config';
+import { HttpError } from './errors';
+
+export interface GitHubFile {
+  content: string;
+  sha: string;
+}
+
+const contentsUrl = (filePath: string) =>
+  `https://api.github.com/repos/${serverConfig.githubRepo}/contents/${filePath}`;
+
+const githubHeaders = () => ({
+  Authorization: `Bearer ${serverConfig.githubToken}`,
+  Accept: 'application/vnd.github.v3+json',
+  'Content-Type': 'application/json',
+});
+
+export async function getFile(filePath: string): Promise<GitHubFile> {
+  if (!serverConfig.githubToken) {
+    throw new HttpError(503, 'GITHUB_TOKEN is not configured on the server');
+  }
+  const response = await fetch(contentsUrl(filePath), { headers: githubHeaders() });
+  if (!response.ok) {
+    console.error('Failed to fetch file from GitHub:', filePath, response.status, response.statusText);
+    throw new HttpError(502, `Failed to fetch ${filePath} from GitHub: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json() as { content: string; sha: string };
+  return {
+    content: Buffer.from(data.content, 'base64').toString('utf8'),
+    sha: data.sha,
+  };
+}
+
+// Commit new file content on top of baseSha. Returns false if the file has
+// moved on since, so the caller can reload and decide what to do.
+export async function putFile(filePath: string, content: string, message: string, baseSha: string): Promise<boolean> {
+  const response = await fetch(contentsUrl(filePath), {
+    method: 'PUT',
+    headers: githubHeaders(),
+    body: JSON.stringify({
+      message,
+      content: Buffer.from(content, 'utf8').toString('base64'),
+      sha: baseSha,
+    }),
+  });
+
+  if (response.ok) return true;
+  if (response.status === 409) return false;
+
+  const errorData = await response.json().catch(() => null);
+  console.error('Failed to update file on GitHub:', filePath, response.status, response.statusText, errorData);
+  throw new HttpError(502, `Failed to update ${filePath} on GitHub: ${response.status} ${response.statusText}`);
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { serverConfig } from '../config';
+
+export interface JsonStore<T> {
+  read: () => Promise<T>;
+  update: <R>(mutate: (data: T) => R | Promise<R>) => Promise<R>;
+}
+
+// File-backed JSON document. Updates are queued so that each read-modify-write
+// runs on its own, and files are replaced atomically via a temp file + rename.
+export function createJsonStore<T>(fileName: string, initialValue: () => T): JsonStore<T> {
+  const filePath = path.join(serverConfig.dataDir, fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return initialValue();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (data: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, filePath);
+  };
+
+  const update = <R>(mutate: (data: T) => R | Promise<R>): Promise<R> => {
+    const run = queue.then(async () => {
+      const data = await read();
+      const result = await mutate(data);
+      await write(data);
+      return result;
+    });
+    // Keep the queue alive even if this update fails
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return { read, update };
+}
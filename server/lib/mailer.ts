@@ -0,0 +1,57 @@
+import sendgrid from '@sendgrid/mail';
+import { createJsonStore } from './json-store';
+import { serverConfig } from '../config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Where outgoing email goes. send rejects when the message was not accepted.
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export type MailTransportKind = 'sendgrid' | 'mock';
+
+export function createSendGridTransport(): MailTransport {
+  if (!serverConfig.sendgridApiKey) {
+    throw new Error('MAIL_TRANSPORT=sendgrid needs SENDGRID_API_KEY');
+  }
+  sendgrid.setApiKey(serverConfig.sendgridApiKey);
+  return {
+    send: async message => {
+      await sendgrid.send({ ...message, from: serverConfig.mailFrom });
+    },
+  };
+}
+
+export interface OutboxMessage extends MailMessage {
+  from: string;
+  sentAt: string;
+}
+
+// Keeps mail in outbox.json in the server data directory instead of sending
+// it; for local development and trying out templates
+export function createMockTransport(): MailTransport {
+  const store = createJsonStore<{ messages: OutboxMessage[] }>('outbox.json', () => ({ messages: [] }));
+  return {
+    send: message => store.update(data => {
+      data.messages.push({ ...message, from: serverConfig.mailFrom, sentAt: new Date().toISOString() });
+      console.log(`Mock mail to ${message.to}: ${message.subject}`);
+    }),
+  };
+}
+
+export function createMailTransport(kind: MailTransportKind): MailTransport {
+  switch (kind) {
+    case 'sendgrid':
+      return createSendGridTransport();
+    case 'mock':
+      return createMockTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; expected sendgrid or mock`);
+  }
+}
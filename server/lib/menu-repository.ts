@@ -0,0 +1,113 @@
+import type { MenuItem } from '../../src/data/types';
+import type { StaffUser } from '../../src/types/auth';
+import { menuItems as bundledMenuItems } from '../../src/data/menu-items';
+import { createJsonStore } from './json-store';
+import { getFile, putFile } from './github';
+import { HttpError } from './errors';
+
+export interface MenuSnapshot {
+  items: MenuItem[];
+  // Opaque marker of the stored menu, changes on every save
+  revision: string;
+}
+
+// Where the published menu lives. save rejects with StaleMenuError when the
+// stored menu is no longer at baseRevision.
+export interface MenuRepository {
+  load: () => Promise<MenuSnapshot>;
+  save: (items: MenuItem[], author: StaffUser, baseRevision: string, summary: string) => Promise<void>;
+}
+
+export class StaleMenuError extends Error {
+  constructor() {
+    super('The menu was changed by someone else while saving');
+    this.name = 'StaleMenuError';
+  }
+}
+
+export type MenuStoreKind = 'github' | 'file' | 'memory';
+
+const MENU_ITEMS_PATH = 'src/data/menu-items.ts';
+
+const cloneItems = (items: MenuItem[]): MenuItem[] => JSON.parse(JSON.stringify(items));
+
+export const renderMenuItemsFile = (items: MenuItem[]) => `// This file is auto-generated. Do not edit manually.
+import { MenuItem } from './types';
+
+export const menuItems: MenuItem[] = ${JSON.stringify(items, null, 2)};
+`;
+
+// Read the items back out of a file written by renderMenuItemsFile
+export function parseMenuItemsFile(content: string): MenuItem[] {
+  const match = content.match(/export const menuItems: MenuItem\[\] = ([\s\S]*);\s*$/);
+  if (!match) {
+    throw new HttpError(500, `${MENU_ITEMS_PATH} is not in the expected format`);
+  }
+  return JSON.parse(match[1]);
+}
+
+// Commits src/data/menu-items.ts, so every change also triggers a redeploy
+export function createGitHubMenuRepository(): MenuRepository {
+  return {
+    load: async () => {
+      const { content, sha } = await getFile(MENU_ITEMS_PATH);
+      return { items: parseMenuItemsFile(content), revision: sha };
+    },
+    save: async (items, author, baseRevision, summary) => {
+      const committed = await putFile(MENU_ITEMS_PATH, renderMenuItemsFile(items), `${summary} (${author.name})`, baseRevision);
+      if (!committed) {
+        throw new StaleMenuError();
+      }
+    },
+  };
+}
+
+// menu.json in the server data directory, seeded from the bundled menu
+export function createFileMenuRepository(): MenuRepository {
+  const store = createJsonStore<{ revision: number; items: MenuItem[] }>('menu.json', () => ({
+    revision: 0,
+    items: cloneItems(bundledMenuItems),
+  }));
+  return {
+    load: async () => {
+      const { revision, items } = await store.read();
+      return { items, revision: String(revision) };
+    },
+    save: (items, _author, baseRevision) => store.update(data => {
+      if (String(data.revision) !== baseRevision) {
+        throw new StaleMenuError();
+      }
+      data.revision += 1;
+      data.items = items;
+    }),
+  };
+}
+
+// Keeps the menu in memory only; for tests and offline development
+export function createInMemoryMenuRepository(initialItems: MenuItem[] = bundledMenuItems): MenuRepository {
+  let items = cloneItems(initialItems);
+  let revision = 0;
+  return {
+    load: async () => ({ items: cloneItems(items), revision: String(revision) }),
+    save: async (next, _author, baseRevision) => {
+      if (String(revision) !== baseRevision) {
+        throw new StaleMenuError();
+      }
+      revision += 1;
+      items = cloneItems(next);
+    },
+  };
+}
+
+export function createMenuRepository(kind: MenuStoreKind): MenuRepository {
+  switch (kind) {
+    case 'github':
+      return createGitHubMenuRepository();
+    case 'file':
+      return createFileMenuRepository();
+    case 'memory':
+      return createInMemoryMenuRepository();
+    default:
+      throw new Error(`Unknown MENU_STORE "${kind}"; expected github, file or memory`);
+  }
+}
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { HttpError } from './errors';
+import { isDateKey, isValidTimeZone } from '../../src/lib/bakery-time';
+
+// Parse a request body, turning schema failures into a 400 response
+export function parseBody<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new HttpError(400, result.error.issues
+      .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('\n'));
+  }
+  return result.data;
+}
+
+// A calendar day as stored on orders and in the schedule
+export const dateKeySchema = z.string().refine(isDateKey, { message: 'Expected a date like 2025-12-25' });
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, { message: 'Expected a timezone like America/Detroit' });
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { createSession, destroySession, findSession } from '../services/auth';
+import { verifyCredentials } from '../services/staff';
+import { SESSION_COOKIE, sessionCookieOptions } from '../lib/auth';
+import { HttpError } from '../lib/errors';
+import { parseBody } from '../lib/validation';
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const authRouter = Router();
+
+authRouter.post('/login', async (req, res) => {
+  const { username, password } = parseBody(loginSchema, req.body);
+  const user = await verifyCredentials(username, password);
+  if (!user) {
+    throw new HttpError(401, 'Invalid username or password');
+  }
+
+  const { token, session } = await createSession(user.id);
+  res.cookie(SESSION_COOKIE, token, sessionCookieOptions());
+  res.json({ expiresAt: session.expiresAt, user });
+});
+
+authRouter.post('/logout', async (req, res) => {
+  await destroySession(req.cookies?.[SESSION_COOKIE]);
+  const { maxAge, ...cookieOptions } = sessionCookieOptions();
+  res.clearCookie(SESSION_COOKIE, cookieOptions);
+  res.status(204).end();
+});
+
+authRouter.get('/session', async (req, res) => {
+  const found = await findSession(req.cookies?.[SESSION_COOKIE]);
+  if (!found) {
+    throw new HttpError(401, 'Not signed in');
+  }
+  res.json({ expiresAt: found.session.expiresAt, user: found.user });
+});
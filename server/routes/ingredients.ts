@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getIngredientCatalog, updateIngredientCatalog } from '../services/ingredients';
+import { INGREDIENT_UNITS, unitsCompatible } from '../../src/lib/ingredients';
+import type { IngredientUnit } from '../../src/types/ingredient';
+import { requireAuth, requirePermission } from '../lib/auth';
+import { parseBody } from '../lib/validation';
+
+const unitSchema = z.enum(INGREDIENT_UNITS as [IngredientUnit, ...IngredientUnit[]]);
+
+const ingredientSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  unit: unitSchema,
+  onHand: z.number().min(0),
+}).strict();
+
+const recipeLineSchema = z.object({
+  ingredientId: z.string().min(1),
+  quantity: z.number().positive(),
+  unit: unitSchema,
+}).strict();
+
+const catalogSchema = z.object({
+  ingredients: z.array(ingredientSchema).refine(
+    ingredients => new Set(ingredients.map(ingredient => ingredient.id)).size === ingredients.length,
+    { message: 'Each ingredient may only be listed once' },
+  ),
+  recipes: z.record(z.array(recipeLineSchema)),
+}).strict().superRefine((catalog, ctx) => {
+  const units = new Map(catalog.ingredients.map(ingredient => [ingredient.id, ingredient.unit]));
+  Object.entries(catalog.recipes).forEach(([itemId, lines]) => {
+    lines.forEach((line, index) => {
+      const unit = units.get(line.ingredientId);
+      if (!unit) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['recipes', itemId, index], message: 'Unknown ingredient' });
+      } else if (!unitsCompatible(line.unit, unit)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['recipes', itemId, index],
+          message: `Can't measure an ingredient bought in ${unit} in ${line.unit}`,
+        });
+      }
+    });
+  });
+});
+
+export const ingredientsRouter = Router();
+
+ingredientsRouter.use(requireAuth, requirePermission('inventory:manage'));
+
+ingredientsRouter.get('/', async (_req, res) => {
+  res.json(await getIngredientCatalog());
+});
+
+ingredientsRouter.put('/', async (req, res) => {
+  res.json(await updateIngredientCatalog(parseBody(catalogSchema, req.body)));
+});
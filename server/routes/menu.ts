@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  adjustStock,
+  getStockLedger,
+  listMenuItems,
+  listPublicMenu,
+  publishMenu,
+  restoreMenuRevision,
+  updateInventory,
+} from '../services/menu';
+import { listMenuRevisions } from '../services/menu-history';
+import { currentUser, requireAuth, requirePermission } from '../lib/auth';
+import { dateKeySchema, parseBody } from '../lib/validation';
+
+const flagsSchema = <K extends string>(keys: readonly K[]) =>
+  z.object(Object.fromEntries(keys.map(key => [key, z.boolean()])) as Record<K, z.ZodBoolean>).catchall(z.boolean());
+
+const menuItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  category: z.string().min(1),
+  description: z.string(),
+  price: z.number().positive(),
+  image: z.string(),
+  dietaryInfo: flagsSchema(['vegan', 'glutenFree', 'nutFree', 'dairyFree', 'halal', 'kosher']),
+  allergens: flagsSchema(['wheat', 'nuts', 'coconut', 'milk', 'eggs', 'soy', 'sesame', 'shellfish', 'fish', 'peanuts', 'treeNuts', 'sulfites']),
+  available: z.boolean(),
+  // -1 marks an item as out of stock
+  stock: z.number().int().min(-1),
+  madeToOrder: z.boolean(),
+  isSpecial: z.boolean(),
+  bestSeller: z.boolean(),
+  seasonal: z.boolean(),
+  active: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  version: z.number().int(),
+}).passthrough();
+
+const restoreSchema = z.object({
+  itemId: z.string().min(1).optional(),
+});
+
+const inventoryUpdateSchema = z.object({
+  minimumStock: z.number().int().min(0).optional(),
+  reorderPoint: z.number().int().min(0).optional(),
+  reorderQuantity: z.number().int().min(0).optional(),
+  cost: z.number().min(0).optional(),
+  supplier: z.string().trim().max(200).optional(),
+}).strict();
+
+const stockNoteSchema = z.string().trim().max(200).optional();
+
+const stockAdjustmentSchema = z.discriminatedUnion('reason', [
+  z.object({ reason: z.literal('correction'), count: z.number().int().min(0), note: stockNoteSchema }).strict(),
+  z.object({
+    reason: z.literal('baked'),
+    quantity: z.number().int().positive(),
+    bakedOn: dateKeySchema.optional(),
+    note: stockNoteSchema,
+  }).strict(),
+  z.object({
+    reason: z.enum(['wasted', 'given-away']),
+    quantity: z.number().int().positive(),
+    note: stockNoteSchema,
+  }).strict(),
+]);
+
+const publishSchema = z.object({
+  items: z.array(menuItemSchema),
+  baseVersions: z.record(z.number().int()),
+  baseStock: z.record(z.number().int()),
+});
+
+export const menuRouter = Router();
+
+// The storefront reads the menu without signing in
+menuRouter.get('/', async (_req, res) => {
+  res.json(await listPublicMenu());
+});
+
+// Every item with its full stock, batches and reorder settings
+menuRouter.get('/inventory', requireAuth, requirePermission('inventory:manage'), async (_req, res) => {
+  res.json(await listMenuItems());
+});
+
+menuRouter.post('/publish', requireAuth, requirePermission('menu:edit'), async (req, res) => {
+  res.json(await publishMenu(parseBody(publishSchema, req.body), currentUser(res)));
+});
+
+menuRouter.get('/history', requireAuth, requirePermission('menu:edit'), async (_req, res) => {
+  res.json(await listMenuRevisions());
+});
+
+menuRouter.post('/history/:id/restore', requireAuth, requirePermission('menu:edit'), async (req, res) => {
+  const { itemId } = parseBody(restoreSchema, req.body);
+  res.json(await restoreMenuRevision(req.params.id, currentUser(res), itemId));
+});
+
+menuRouter.patch('/:id/inventory', requireAuth, requirePermission('inventory:manage'), async (req, res) => {
+  res.json(await updateInventory(req.params.id, parseBody(inventoryUpdateSchema, req.body)));
+});
+
+menuRouter.get('/:id/stock', requireAuth, requirePermission('inventory:manage'), async (req, res) => {
+  res.json(await getStockLedger(req.params.id));
+});
+
+menuRouter.post('/:id/stock', requireAuth, requirePermission('inventory:manage'), async (req, res) => {
+  res.json(await adjustStock(req.params.id, parseBody(stockAdjustmentSchema, req.body), currentUser(res)));
+});
@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  cancelOrderByCustomer, changeOrderByCustomer, createOrder, deleteOrder, getOrder, getPickupLoad, getSelfServiceOrder,
+  listOrders, lookupCustomerOrder, updateOrder,
+} from '../services/orders';
+import { listOrderNotifications } from '../services/notifications';
+import { dateKeySchema, parseBody } from '../lib/validation';
+import { assertPermission, currentUser, requireAuth, requirePermission } from '../lib/auth';
+import { HttpError } from '../lib/errors';
+import { canSetOrderStatus } from '../../src/lib/permissions';
+import type { OrderUpdate } from '../../src/types/order';
+import type { StaffUser } from '../../src/types/auth';
+
+// Names, prices and the total are checked against the menu when the order is placed
+const orderItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  price: z.number().nonnegative(),
+  quantity: z.number().int().positive(),
+  specialInstructions: z.string().optional(),
+  customizations: z.array(z.string()).optional(),
+});
+
+const newOrderSchema = z.object({
+  customerName: z.string().trim().min(2),
+  customerEmail: z.string().email(),
+  customerPhone: z.string().regex(/^\d{3}-\d{3}-\d{4}$/),
+  inStockItems: z.array(orderItemSchema),
+  madeToOrderItems: z.array(orderItemSchema),
+  inStockPickupDate: dateKeySchema.optional(),
+  inStockPickupTime: z.string().optional(),
+  madeToOrderPickupDate: dateKeySchema.optional(),
+  madeToOrderPickupTime: z.string().optional(),
+  total: z.number().nonnegative(),
+  specialInstructions: z.string().optional(),
+  paymentMethod: z.enum(['zelle', 'cash']).optional(),
+  orderType: z.literal('pickup'),
+  estimatedCompletionTime: z.string().datetime().optional(),
+}).refine(order => order.inStockItems.length + order.madeToOrderItems.length > 0, {
+  message: 'Order must contain at least one item',
+});
+
+const orderLookupSchema = z.object({
+  contact: z.string().trim().min(1, { message: 'Enter the email or phone number you ordered with' }),
+});
+
+const manageTokenSchema = z.object({ token: z.string().min(1) });
+
+const customerChangeSchema = manageTokenSchema.extend({
+  quantities: z.record(z.string(), z.number().int().min(0).max(100)),
+  inStockPickupDate: dateKeySchema.optional(),
+  inStockPickupTime: z.string().optional(),
+  madeToOrderPickupDate: dateKeySchema.optional(),
+  madeToOrderPickupTime: z.string().optional(),
+}).strict();
+
+const orderUpdateSchema = z.object({
+  status: z.enum(['pending', 'completed', 'cancelled', 'preparing', 'ready']).optional(),
+  notes: z.string().optional(),
+  paymentStatus: z.enum(['pending', 'paid', 'refunded']).optional(),
+  paymentMethod: z.enum(['zelle', 'cash']).optional(),
+  priority: z.enum(['normal', 'high', 'urgent']).optional(),
+}).strict();
+
+// Each field of an order update is guarded by its own permission
+const assertCanUpdateOrder = (user: StaffUser, updates: OrderUpdate) => {
+  if (updates.status && !canSetOrderStatus(user.role, updates.status)) {
+    throw new HttpError(403, `You do not have permission to mark orders as ${updates.status}`);
+  }
+  if (updates.priority) {
+    assertPermission(user, 'orders:status');
+  }
+  if (updates.notes !== undefined) {
+    assertPermission(user, 'orders:notes');
+  }
+  if (updates.paymentStatus === 'refunded') {
+    assertPermission(user, 'payments:refund');
+  } else if (updates.paymentStatus || updates.paymentMethod) {
+    assertPermission(user, 'payments:record');
+  }
+};
+
+export const ordersRouter = Router();
+
+// Placing an order and customers looking up their own are public; everything else is admin-only
+
+ordersRouter.get('/', requireAuth, requirePermission('orders:view'), async (_req, res) => {
+  res.json(await listOrders());
+});
+
+// Public: booked counts per pickup time, without any customer details
+ordersRouter.get('/pickup-load', async (_req, res) => {
+  res.json(await getPickupLoad());
+});
+
+ordersRouter.get('/:id', requireAuth, requirePermission('orders:view'), async (req, res) => {
+  res.json(await getOrder(req.params.id));
+});
+
+// Public: a customer checking on their own order
+ordersRouter.post('/:id/lookup', async (req, res) => {
+  const { contact } = parseBody(orderLookupSchema, req.body);
+  res.json(await lookupCustomerOrder(req.params.id, contact));
+});
+
+// Public, for whoever holds the order's manage link
+ordersRouter.get('/:id/manage', async (req, res) => {
+  const { token } = parseBody(manageTokenSchema, req.query);
+  res.json(await getSelfServiceOrder(req.params.id, token));
+});
+
+ordersRouter.patch('/:id/manage', async (req, res) => {
+  const { token, ...change } = parseBody(customerChangeSchema, req.body);
+  res.json(await changeOrderByCustomer(req.params.id, token, change));
+});
+
+ordersRouter.post('/:id/manage/cancel', async (req, res) => {
+  const { token } = parseBody(manageTokenSchema, req.body);
+  res.json(await cancelOrderByCustomer(req.params.id, token));
+});
+
+// Emails the customer was sent about this order
+ordersRouter.get('/:id/notifications', requireAuth, requirePermission('orders:view'), async (req, res) => {
+  const order = await getOrder(req.params.id);
+  res.json(await listOrderNotifications(order.id));
+});
+
+ordersRouter.post('/', async (req, res) => {
+  const order = await createOrder(parseBody(newOrderSchema, req.body));
+  res.status(201).json(order);
+});
+
+ordersRouter.patch('/:id', requireAuth, async (req, res) => {
+  const updates = parseBody(orderUpdateSchema, req.body);
+  const user = currentUser(res);
+  assertCanUpdateOrder(user, updates);
+  res.json(await updateOrder(req.params.id, updates, user));
+});
+
+ordersRouter.delete('/:id', requireAuth, requirePermission('orders:delete'), async (req, res) => {
+  await deleteOrder(req.params.id);
+  res.status(204).end();
+});
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getPickupSchedule, updatePickupSchedule } from '../services/schedule';
+import { parseClockTime } from '../../src/lib/pickup-schedule';
+import type { Weekday } from '../../src/types/schedule';
+import { requireAuth, requirePermission } from '../lib/auth';
+import { dateKeySchema, parseBody, timeZoneSchema } from '../lib/validation';
+
+const weekdaySchema = z.number().int().min(0).max(6).transform(day => day as Weekday);
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Expected a time like 09:30' });
+
+const endsAfterStart = [
+  (hours: { start: string; end: string }) => parseClockTime(hours.start) < parseClockTime(hours.end),
+  { message: 'Pickup must end after it starts' },
+] as const;
+
+const hoursSchema = z.object({
+  start: clockTimeSchema,
+  end: clockTimeSchema,
+});
+
+const pickupWindowSchema = hoursSchema.extend({ weekday: weekdaySchema }).refine(...endsAfterStart);
+
+const pickupRulesSchema = z.object({
+  windows: z.array(pickupWindowSchema).refine(
+    windows => new Set(windows.map(window => window.weekday)).size === windows.length,
+    { message: 'Each day may only have one pickup window' },
+  ),
+  leadDays: z.number().int().min(0).max(60),
+  orderDeadline: z.object({ weekday: weekdaySchema, time: clockTimeSchema }).nullable(),
+  slotCapacity: z.number().int().min(1).nullable(),
+  dailyCapacity: z.number().int().min(1).nullable(),
+});
+
+const scheduleExceptionSchema = z.object({
+  date: dateKeySchema,
+  hours: hoursSchema.refine(...endsAfterStart).nullable(),
+  note: z.string().trim().max(200),
+});
+
+const capacityOverrideSchema = z.object({
+  date: dateKeySchema,
+  kind: z.enum(['inStock', 'madeToOrder']),
+  time: z.string().nullable(),
+  capacity: z.number().int().min(0),
+});
+
+const pickupScheduleSchema = z.object({
+  timezone: timeZoneSchema,
+  slotMinutes: z.number().int().min(5).max(240),
+  inStock: pickupRulesSchema,
+  madeToOrder: pickupRulesSchema,
+  exceptions: z.array(scheduleExceptionSchema).refine(
+    exceptions => new Set(exceptions.map(exception => exception.date)).size === exceptions.length,
+    { message: 'Each date may only be listed once' },
+  ),
+  capacityOverrides: z.array(capacityOverrideSchema),
+}).strict();
+
+export const scheduleRouter = Router();
+
+// The order page needs the schedule before anyone signs in
+scheduleRouter.get('/', async (_req, res) => {
+  res.json(await getPickupSchedule());
+});
+
+scheduleRouter.put('/', requireAuth, requirePermission('settings:manage'), async (req, res) => {
+  res.json(await updatePickupSchedule(parseBody(pickupScheduleSchema, req.body)));
+});
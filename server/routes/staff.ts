@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { createStaffUser, listStaff, updateStaffUser } from '../services/staff';
+import { destroyUserSessions } from '../services/auth';
+import { requireAuth, requirePermission } from '../lib/auth';
+import { parseBody } from '../lib/validation';
+
+const roleSchema = z.enum(['owner', 'baker', 'front-counter']);
+const passwordSchema = z.string().min(8, { message: 'Password must be at least 8 characters' });
+
+const newStaffSchema = z.object({
+  username: z.string().trim().min(2).regex(/^[a-z0-9._-]+$/i, { message: 'Username may only contain letters, numbers, dots, dashes and underscores' }),
+  name: z.string().trim().min(1),
+  role: roleSchema,
+  password: passwordSchema,
+});
+
+const staffUpdateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  role: roleSchema.optional(),
+  active: z.boolean().optional(),
+  password: passwordSchema.optional(),
+}).strict();
+
+export const staffRouter = Router();
+
+staffRouter.use(requireAuth, requirePermission('staff:manage'));
+
+staffRouter.get('/', async (_req, res) => {
+  res.json(await listStaff());
+});
+
+staffRouter.post('/', async (req, res) => {
+  res.status(201).json(await createStaffUser(parseBody(newStaffSchema, req.body)));
+});
+
+staffRouter.patch('/:id', async (req, res) => {
+  const updates = parseBody(staffUpdateSchema, req.body);
+  const user = await updateStaffUser(req.params.id, updates);
+  // Role, password or access changes take effect immediately
+  if (updates.role || updates.password || updates.active === false) {
+    await destroyUserSessions(user.id);
+  }
+  res.json(user);
+});
@@ -0,0 +1,69 @@
+import { createHash, randomBytes } from 'crypto';
+import type { StaffUser } from '../../src/types/auth';
+import { createJsonStore } from '../lib/json-store';
+import { serverConfig } from '../config';
+import { getActiveStaffUser } from './staff';
+
+export interface Session {
+  // Only a hash of the cookie token is kept on disk
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface SessionData {
+  sessions: Session[];
+}
+
+const store = createJsonStore<SessionData>('sessions.json', () => ({ sessions: [] }));
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const isActive = (session: Session, now = new Date()) => new Date(session.expiresAt) > now;
+
+// Start a new session and return the raw token for the session cookie
+export async function createSession(userId: string): Promise<{ token: string; session: Session }> {
+  const token = randomBytes(32).toString('hex');
+  const now = new Date();
+  const session: Session = {
+    tokenHash: hashToken(token),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + serverConfig.sessionTtlHours * 60 * 60 * 1000).toISOString(),
+  };
+
+  await store.update(data => {
+    // Drop expired sessions while we're here
+    data.sessions = data.sessions.filter(s => isActive(s, now));
+    data.sessions.push(session);
+  });
+
+  return { token, session };
+}
+
+// Resolve a session cookie to its session and staff member; deactivated staff are signed out
+export async function findSession(token: string | undefined): Promise<{ session: Session; user: StaffUser } | null> {
+  if (!token) return null;
+  const tokenHash = hashToken(token);
+  const { sessions } = await store.read();
+  const session = sessions.find(s => s.tokenHash === tokenHash);
+  if (!session || !session.userId || !isActive(session)) return null;
+
+  const user = await getActiveStaffUser(session.userId);
+  return user ? { session, user } : null;
+}
+
+export async function destroySession(token: string | undefined): Promise<void> {
+  if (!token) return;
+  const tokenHash = hashToken(token);
+  await store.update(data => {
+    data.sessions = data.sessions.filter(s => s.tokenHash !== tokenHash);
+  });
+}
+
+export async function destroyUserSessions(userId: string): Promise<void> {
+  await store.update(data => {
+    data.sessions = data.sessions.filter(s => s.userId !== userId);
+  });
+}
@@ -0,0 +1,13 @@
+import type { IngredientCatalog } from '../../src/types/ingredient';
+import { createJsonStore } from '../lib/json-store';
+
+const store = createJsonStore<IngredientCatalog>('ingredients.json', () => ({ ingredients: [], recipes: {} }));
+
+export const getIngredientCatalog = () => store.read();
+
+// Menu items whose recipe was cleared drop out rather than keep an empty one
+export const updateIngredientCatalog = (catalog: IngredientCatalog) => store.update(data => {
+  data.ingredients = catalog.ingredients;
+  data.recipes = Object.fromEntries(Object.entries(catalog.recipes).filter(([, lines]) => lines.length > 0));
+  return data;
+});
@@ -0,0 +1,41 @@
+import type { MenuItem } from '../../src/data/types';
+import { createJsonStore } from '../lib/json-store';
+
+// Live stock, batches and reorder settings per menu item. They're kept in
+// DATA_DIR whatever the menu store, so orders never write to the published
+// menu and the settings are never published with it.
+export type InventoryRecord = Pick<
+  MenuItem,
+  'stock' | 'batches' | 'minimumStock' | 'reorderPoint' | 'reorderQuantity' | 'cost' | 'supplier'
+>;
+
+export type InventoryRecords = Record<string, InventoryRecord>;
+
+const store = createJsonStore<{ items: InventoryRecords }>('inventory.json', () => ({ items: {} }));
+
+export const readInventory = async () => (await store.read()).items;
+
+// Changes to stock run one at a time, so concurrent orders never lose a write
+export const updateInventoryRecords = <R>(mutate: (records: InventoryRecords) => R | Promise<R>) =>
+  store.update(data => mutate(data.items));
+
+// An item as customers and the menu store see it, without its batches or settings
+export function menuFieldsOf(item: MenuItem): MenuItem {
+  const { batches: _b, minimumStock: _m, reorderPoint: _p, reorderQuantity: _q, cost: _c, supplier: _s, ...menuItem } = item;
+  return menuItem;
+}
+
+// The item's inventory record. Items without one yet still have what the menu
+// store started them with.
+export function inventoryOf(item: MenuItem, records: InventoryRecords): InventoryRecord {
+  const { stock, batches, minimumStock, reorderPoint, reorderQuantity, cost, supplier } = item;
+  return records[item.id] ?? { stock, batches, minimumStock, reorderPoint, reorderQuantity, cost, supplier };
+}
+
+// An item with its live stock, batches and settings
+export const withInventory = (item: MenuItem, records: InventoryRecords): MenuItem =>
+  ({ ...menuFieldsOf(item), ...inventoryOf(item, records) });
+
+// What the menu store keeps of an item: its starting count, never the live one
+export const toStoredItem = (item: MenuItem, stored?: MenuItem): MenuItem =>
+  ({ ...menuFieldsOf(item), stock: stored?.stock ?? item.stock });
@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import type { MenuItem } from '../../src/data/types';
+import type { StaffUser } from '../../src/types/auth';
+import type { MenuRevisionSummary } from '../../src/types/menu-publish';
+import type { MenuItemChange } from '../../src/lib/menu-diff';
+import { createJsonStore } from '../lib/json-store';
+import { HttpError } from '../lib/errors';
+
+interface MenuRevisionRecord extends MenuRevisionSummary {
+  items: MenuItem[];
+}
+
+interface MenuHistoryData {
+  revisions: MenuRevisionRecord[];
+}
+
+const store = createJsonStore<MenuHistoryData>('menu-history.json', () => ({ revisions: [] }));
+
+// Oldest revisions are dropped beyond this
+const MAX_REVISIONS = 100;
+
+const toSummary = ({ items, ...summary }: MenuRevisionRecord): MenuRevisionSummary => summary;
+
+export async function recordMenuRevision(
+  previous: MenuItem[],
+  items: MenuItem[],
+  author: StaffUser,
+  summary: string,
+  changes: MenuItemChange[],
+): Promise<void> {
+  await store.update(data => {
+    // Keep the menu we started from, so the first change can be undone too
+    if (data.revisions.length === 0) {
+      data.revisions.push({
+        id: randomUUID(),
+        createdAt: new Date().toISOString(),
+        author: null,
+        summary: 'Menu before history was recorded',
+        changes: [],
+        items: previous,
+      });
+    }
+    data.revisions.push({
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      author: { id: author.id, name: author.name },
+      summary,
+      changes,
+      items,
+    });
+    data.revisions = data.revisions.slice(-MAX_REVISIONS);
+  });
+}
+
+// Newest first
+export async function listMenuRevisions(): Promise<MenuRevisionSummary[]> {
+  const { revisions } = await store.read();
+  return revisions.map(toSummary).reverse();
+}
+
+export async function getMenuRevision(revisionId: string): Promise<MenuRevisionRecord> {
+  const { revisions } = await store.read();
+  const revision = revisions.find(r => r.id === revisionId);
+  if (!revision) {
+    throw new HttpError(404, 'Menu revision not found');
+  }
+  return revision;
+}
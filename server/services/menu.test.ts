@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { mergeMenu } from './menu';
+import { menuItem } from '../../src/test/menu-item';
+
+const cookie = menuItem({ id: 'cookie', version: 3 });
+const bread = menuItem({ id: 'bread', name: 'Sourdough', version: 5 });
+
+describe('mergeMenu', () => {
+  it("applies this editor's changes and bumps their version", () => {
+    const { merged, conflicts } = mergeMenu([cookie, bread], {
+      items: [{ ...cookie, price: 4, version: 4 }, bread],
+      baseVersions: { cookie: 3, bread: 5 },
+      baseStock: {},
+    });
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual([{ ...cookie, price: 4, version: 4 }, bread]);
+  });
+
+  it("keeps other editors' changes to items this editor didn't touch", () => {
+    const theirs = { ...bread, name: 'Country Sourdough', version: 6 };
+    const { merged, conflicts } = mergeMenu([cookie, theirs], {
+      items: [cookie, bread],
+      baseVersions: { cookie: 3, bread: 5 },
+      baseStock: {},
+    });
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual([cookie, theirs]);
+  });
+
+  it('reports a conflict when both sides changed the same item', () => {
+    const theirs = { ...cookie, price: 5, version: 4 };
+    const mine = { ...cookie, price: 4, version: 4 };
+    const { merged, conflicts } = mergeMenu([theirs, bread], {
+      items: [mine, bread],
+      baseVersions: { cookie: 3, bread: 5 },
+      baseStock: {},
+    });
+    expect(conflicts).toEqual([{ id: 'cookie', mine, theirs }]);
+    expect(merged).toEqual([theirs, bread]);
+  });
+
+  it('reports a conflict when an item this editor changed was deleted', () => {
+    const mine = { ...bread, price: 9, version: 6 };
+    const { merged, conflicts } = mergeMenu([cookie], {
+      items: [cookie, mine],
+      baseVersions: { cookie: 3, bread: 5 },
+      baseStock: {},
+    });
+    expect(conflicts).toEqual([{ id: 'bread', mine, theirs: null }]);
+    expect(merged).toEqual([cookie]);
+  });
+
+  it('adds new items and removes deleted ones', () => {
+    const scone = menuItem({ id: 'scone', name: 'Scone' });
+    const pie = menuItem({ id: 'pie', name: 'Apple Pie' });
+    const { merged, conflicts } = mergeMenu([cookie, bread, pie], {
+      items: [cookie, scone],
+      baseVersions: { cookie: 3, bread: 5 },
+      baseStock: {},
+    });
+    expect(conflicts).toEqual([]);
+    // Bread was deleted here; pie was added by someone else meanwhile
+    expect(merged).toEqual([cookie, scone, pie]);
+  });
+
+  it('reports a conflict when this editor deleted an item that changed since', () => {
+    const theirs = { ...bread, price: 9, version: 6 };
+    const { merged, conflicts } = mergeMenu([cookie, theirs], {
+      items: [cookie],
+      baseVersions: { cookie: 3, bread: 5 },
+      baseStock: {},
+    });
+    expect(conflicts).toEqual([{ id: 'bread', mine: null, theirs }]);
+    expect(merged).toEqual([cookie, theirs]);
+  });
+});
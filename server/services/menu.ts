@@ -0,0 +1,460 @@
+import type { InventoryUpdate, MenuItem } from '../../src/data/types';
+import type { StaffUser } from '../../src/types/auth';
+import type { StockAdjustment, StockBatch, StockLedger } from '../../src/types/stock';
+import type { MenuConflict, MenuPublishRequest } from '../../src/types/menu-publish';
+import { hasPermission } from '../../src/lib/permissions';
+import { changedFields, diffMenus, summarizeMenuChanges } from '../../src/lib/menu-diff';
+import { sellableStock } from '../../src/lib/inventory';
+import { bakeryDateKey, type DateKey } from '../../src/lib/bakery-time';
+import {
+  addToBatches,
+  availableStock,
+  batchesForCount,
+  batchesOf,
+  expiredStock,
+  removeFromBatches,
+  returnToBatches,
+  sellFromBatches,
+  type BatchChange,
+} from '../../src/lib/stock-batches';
+import { createMenuRepository, StaleMenuError } from '../lib/menu-repository';
+import { HttpError } from '../lib/errors';
+import { serverConfig } from '../config';
+import { getMenuRevision, recordMenuRevision } from './menu-history';
+import { listOrderStockMovements, listStockMovements, recordStockMovements, type NewStockMovement } from './stock-ledger';
+import { getPickupSchedule } from './schedule';
+import {
+  inventoryOf,
+  menuFieldsOf,
+  readInventory,
+  toStoredItem,
+  updateInventoryRecords,
+  withInventory,
+} from './inventory';
+
+const repository = createMenuRepository(serverConfig.menuStore);
+
+// Bakers may edit items but not prices; only menu managers add or remove items
+function assertCanPublish(user: StaffUser, current: MenuItem[], next: MenuItem[]) {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  const addsOrRemoves = next.some(item => !currentById.has(item.id))
+    || current.some(item => !nextIds.has(item.id));
+  if (addsOrRemoves && !hasPermission(user.role, 'menu:manage')) {
+    throw new HttpError(403, 'You do not have permission to add or remove menu items');
+  }
+
+  const changesPrices = next.some(item => {
+    const existing = currentById.get(item.id);
+    return existing && existing.price !== item.price;
+  });
+  if (changesPrices && !hasPermission(user.role, 'menu:prices')) {
+    throw new HttpError(403, 'You do not have permission to change prices');
+  }
+}
+
+// Saves that lose a race with another save are re-merged this many times
+const MAX_SAVE_ATTEMPTS = 3;
+
+// Apply the editor's changes on top of the stored menu. An item counts as
+// changed by the editor when its version moved past its base version (or it
+// was removed); it conflicts when the stored item has moved on as well.
+export function mergeMenu(current: MenuItem[], { items, baseVersions }: MenuPublishRequest) {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const submittedIds = new Set(items.map(item => item.id));
+  const conflicts: MenuConflict[] = [];
+  const merged: MenuItem[] = [];
+
+  for (const mine of items) {
+    const theirs = currentById.get(mine.id) ?? null;
+    const base = baseVersions[mine.id];
+
+    if (base === undefined) {
+      // New item from this editor
+      merged.push(theirs ?? mine);
+      continue;
+    }
+
+    const changedByMe = mine.version !== base;
+    if (!changedByMe) {
+      if (theirs) merged.push(theirs);
+      continue;
+    }
+    if (!theirs || theirs.version !== base) {
+      conflicts.push({ id: mine.id, mine, theirs });
+      if (theirs) merged.push(theirs);
+      continue;
+    }
+    merged.push({ ...mine, version: theirs.version + 1 });
+  }
+
+  for (const theirs of current) {
+    if (submittedIds.has(theirs.id)) continue;
+    const base = baseVersions[theirs.id];
+    if (base === undefined) {
+      // Added by someone else since this editor loaded the menu
+      merged.push(theirs);
+    } else if (theirs.version !== base) {
+      conflicts.push({ id: theirs.id, mine: null, theirs });
+      merged.push(theirs);
+    }
+    // Otherwise this editor deleted it
+  }
+
+  return { merged, conflicts };
+}
+
+// The stored menu, and the same items with their live inventory
+async function loadMenu() {
+  const { items: stored, revision } = await repository.load();
+  const records = await readInventory();
+  return { stored, items: stored.map(item => withInventory(item, records)), revision };
+}
+
+export const listMenuItems = async () => (await loadMenu()).items;
+
+// Run a load-change-save against the menu store, starting over when another
+// save lands in between
+async function retryOnStale<T>(attempt: () => Promise<T>): Promise<T> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!(error instanceof StaleMenuError)) throw error;
+      if (attemptNumber >= MAX_SAVE_ATTEMPTS) {
+        throw new HttpError(409, 'The menu is being changed by someone else right now. Please try again.');
+      }
+    }
+  }
+}
+
+const staffActor = (user: StaffUser) => ({ name: user.name, id: user.id });
+
+// Batches are dated by the bakery's calendar
+const bakeryToday = async () => bakeryDateKey((await getPickupSchedule()).timezone);
+
+// An item as customers and the menu editor see it: only stock that can still
+// be sold, and none of the inventory settings or batches behind it
+const publicMenuItem = (item: MenuItem, today: DateKey): MenuItem => ({
+  ...menuFieldsOf(item),
+  stock: item.madeToOrder ? item.stock : availableStock(item, today),
+});
+
+export async function listPublicMenu(): Promise<MenuItem[]> {
+  const today = await bakeryToday();
+  return (await listMenuItems()).map(item => publicMenuItem(item, today));
+}
+
+// Counts set in the menu editor, and the stock of items new to the menu, land
+// in the ledger as corrections. The editor counts what can still be sold, so
+// expired units stay until they're written off and missing units come off the
+// oldest fresh batches. Added units are dated today.
+function countStock(counted: MenuItem[], live: MenuItem[], user: StaffUser, today: DateKey, note: string): Promise<void> {
+  const liveById = new Map(live.map(item => [item.id, item]));
+  return updateInventoryRecords(async records => {
+    const movements: NewStockMovement[] = [];
+    counted.forEach(item => {
+      const existing = liveById.get(item.id);
+      const before = existing
+        ? withInventory(existing, records)
+        : { ...item, stock: 0, batches: undefined };
+      const expired = item.madeToOrder ? 0 : expiredStock(before, today);
+      const stock = item.stock + expired;
+      if (existing && stock === before.stock) return;
+      const quantity = sellableStock(item) + expired - sellableStock(before);
+      const { batches, moved } = quantity < 0 && !item.madeToOrder
+        ? sellFromBatches(before, -quantity, today)
+        : batchesForCount(before, sellableStock(before) + quantity, today);
+      records[item.id] = { ...inventoryOf(before, records), stock, batches };
+      if (quantity === 0) return;
+      movements.push({
+        itemId: item.id,
+        itemName: item.name,
+        reason: 'correction',
+        quantity,
+        stockAfter: sellableStock(before) + quantity,
+        actor: staffActor(user),
+        batches: moved,
+        note,
+      });
+    });
+    await recordStockMovements(movements);
+  });
+}
+
+// Build the next menu from the stored one and save it. Every save made by
+// staff is recorded in the menu history. Items keep their live stock unless
+// they're new or listed in `counted`, the counts the editor changed. Returns
+// the menu as customers see it.
+async function saveMenu(
+  user: StaffUser,
+  build: (current: MenuItem[]) => MenuItem[],
+  summary?: string,
+  counted: Set<string> = new Set(),
+): Promise<MenuItem[]> {
+  const today = await bakeryToday();
+  return retryOnStale(async () => {
+    const { stored, items: live, revision } = await loadMenu();
+    const current = live.map(item => publicMenuItem(item, today));
+    const currentById = new Map(current.map(item => [item.id, item]));
+    const built = build(current);
+    const next = built.map((item): MenuItem => {
+      const existing = currentById.get(item.id);
+      return { ...menuFieldsOf(item), stock: existing && !counted.has(item.id) ? existing.stock : item.stock };
+    });
+    const changes = diffMenus(current, next);
+    if (changes.length === 0) return listPublicMenu();
+    assertCanPublish(user, current, next);
+
+    // Settings and batches from before the inventory store are moved into it
+    // before the menu store drops them
+    await updateInventoryRecords(records => {
+      stored.forEach(item => { records[item.id] = inventoryOf(item, records); });
+    });
+    const description = summary ?? summarizeMenuChanges(changes);
+    const storedById = new Map(stored.map(item => [item.id, item]));
+    await repository.save(next.map(item => toStoredItem(item, storedById.get(item.id))), user, revision, description);
+    await recordMenuRevision(current, next, user, description, changes);
+    await countStock(built.filter(item => !currentById.has(item.id) || counted.has(item.id)), live, user, today, description);
+    return listPublicMenu();
+  });
+}
+
+export function publishMenu(request: MenuPublishRequest, user: StaffUser): Promise<MenuItem[]> {
+  // Orders move stock without touching item versions, so an edited item only
+  // sets its stock when the editor changed the count itself
+  const counted = new Set(request.items
+    .filter(item => item.id in request.baseStock && item.stock !== request.baseStock[item.id])
+    .map(item => item.id));
+  return saveMenu(user, current => {
+    const { merged, conflicts } = mergeMenu(current, request);
+    if (conflicts.length > 0) {
+      throw new HttpError(409, 'Some menu items were changed by someone else', { conflicts });
+    }
+    return merged;
+  }, undefined, counted);
+}
+
+// Put the whole menu, or just one item, back the way it was in an earlier revision.
+// Items still on the menu keep their current stock. Restored items get a new
+// version so open editors see the change as a conflict.
+export async function restoreMenuRevision(revisionId: string, user: StaffUser, itemId?: string): Promise<MenuItem[]> {
+  const revision = await getMenuRevision(revisionId);
+  const restoredItem = itemId ? revision.items.find(item => item.id === itemId) : undefined;
+  if (itemId && !restoredItem) {
+    throw new HttpError(404, 'That item was not on the menu in this revision');
+  }
+
+  return saveMenu(user, current => {
+    const currentById = new Map(current.map(item => [item.id, item]));
+    const restore = (item: MenuItem): MenuItem => {
+      const existing = currentById.get(item.id);
+      if (!existing) return item;
+      // Stock has moved on with orders since the revision, which never recorded
+      // them, so only the menu fields are restored
+      const restored = { ...menuFieldsOf(item), stock: existing.stock };
+      if (changedFields(existing, restored).length === 0) return existing;
+      return { ...restored, version: existing.version + 1, updatedAt: new Date().toISOString() };
+    };
+
+    if (!restoredItem) {
+      return revision.items.map(restore);
+    }
+    return currentById.has(restoredItem.id)
+      ? current.map(item => (item.id === restoredItem.id ? restore(restoredItem) : item))
+      : [...current, restoredItem];
+  }, `Restore ${restoredItem ? restoredItem.name : 'menu'} to an earlier version`);
+}
+
+// Reorder settings from the inventory page. They're saved straight to the
+// inventory store, so they skip the menu history and are never published.
+export async function updateInventory(itemId: string, updates: InventoryUpdate): Promise<MenuItem> {
+  const item = (await repository.load()).items.find(({ id }) => id === itemId);
+  if (!item) {
+    throw new HttpError(404, 'Menu item not found');
+  }
+  return updateInventoryRecords(records => {
+    const record = { ...inventoryOf(item, records), ...updates };
+    if (!record.supplier) delete record.supplier;
+    records[itemId] = record;
+    return withInventory(item, records);
+  });
+}
+
+// How an adjustment changes the item's batches. Baked stock is a new batch;
+// anything else taken comes off expired batches, then the oldest.
+function adjustBatches(item: MenuItem, adjustment: StockAdjustment, today: DateKey): BatchChange {
+  switch (adjustment.reason) {
+    case 'correction':
+      return batchesForCount(item, adjustment.count, today);
+    case 'baked': {
+      const moved = [{ bakedOn: adjustment.bakedOn ?? today, quantity: adjustment.quantity }];
+      return { batches: addToBatches(batchesOf(item), moved), moved };
+    }
+    default:
+      return removeFromBatches(item, adjustment.quantity, today);
+  }
+}
+
+// Stock counted, baked, wasted or given away, recorded from the inventory page
+export async function adjustStock(itemId: string, adjustment: StockAdjustment, user: StaffUser): Promise<MenuItem> {
+  const today = await bakeryToday();
+  if (adjustment.reason === 'baked' && adjustment.bakedOn && adjustment.bakedOn > today) {
+    throw new HttpError(400, 'Stock cannot be baked in the future');
+  }
+  const menuItem = (await repository.load()).items.find(({ id }) => id === itemId);
+  if (!menuItem) {
+    throw new HttpError(404, 'Menu item not found');
+  }
+  if (menuItem.madeToOrder) {
+    throw new HttpError(409, `${menuItem.name} is made to order and doesn't keep stock`);
+  }
+
+  return updateInventoryRecords(async records => {
+    const item = withInventory(menuItem, records);
+    const before = sellableStock(item);
+    const after = adjustment.reason === 'correction'
+      ? adjustment.count
+      : before + (adjustment.reason === 'baked' ? adjustment.quantity : -adjustment.quantity);
+    if (after < 0) {
+      throw new HttpError(409, `Only ${before} ${item.name} in stock`);
+    }
+    if (after === before) return item;
+
+    const { batches, moved } = adjustBatches(item, adjustment, today);
+    records[itemId] = { ...inventoryOf(item, records), stock: after, batches };
+    await recordStockMovements([{
+      itemId,
+      itemName: item.name,
+      reason: adjustment.reason,
+      quantity: after - before,
+      stockAfter: after,
+      actor: staffActor(user),
+      batches: moved,
+      note: adjustment.note || undefined,
+    }]);
+    return { ...item, stock: after, batches };
+  });
+}
+
+// An item's movements, and whether the latest one still matches the inventory
+// store. They drift apart only when inventory.json is edited by hand.
+export async function getStockLedger(itemId: string): Promise<StockLedger> {
+  const item = (await listMenuItems()).find(({ id }) => id === itemId);
+  if (!item) {
+    throw new HttpError(404, 'Menu item not found');
+  }
+  const movements = await listStockMovements(itemId);
+  return {
+    movements,
+    ledgerStock: movements.length > 0 ? movements[0].stockAfter : null,
+    menuStock: sellableStock(item),
+  };
+}
+
+export interface StockLine {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+export interface StockShortage {
+  id: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+const ORDER_STOCK_AUTHOR = { name: 'Online orders' };
+
+const totalQuantities = (lines: StockLine[]) => {
+  const totals = new Map<string, number>();
+  lines.forEach(line => totals.set(line.id, (totals.get(line.id) ?? 0) + line.quantity));
+  return totals;
+};
+
+// The dated units an order still holds per item, from its movements in the ledger
+async function batchesHeldByOrder(orderId: string): Promise<Map<string, StockBatch[]>> {
+  const held = new Map<string, StockBatch[]>();
+  (await listOrderStockMovements(orderId)).forEach(({ itemId, quantity, batches = [] }) => {
+    // Units sold move to the order and returned ones move back
+    const sign = quantity < 0 ? 1 : -1;
+    held.set(itemId, addToBatches(held.get(itemId) ?? [], batches.map(batch => ({ ...batch, quantity: sign * batch.quantity }))));
+  });
+  return held;
+}
+
+// Take (-1) or give back (+1) stock for order lines in a single save. Taking
+// fails with a 409 listing every item that can't be covered, changing nothing.
+// Orders take the oldest unexpired batches first and give units back to the
+// batches they came from. Only the inventory store is written, one change at
+// a time, so orders never commit to the menu store or race each other.
+// held is what the order already has, so a shortage reports the whole amount
+// asked for rather than only the extra units.
+async function changeStock(lines: StockLine[], direction: 1 | -1, orderId: string, held: StockLine[] = []): Promise<void> {
+  const quantities = totalQuantities(lines);
+  if (quantities.size === 0) return;
+  const today = await bakeryToday();
+  const heldBatches = direction > 0 ? await batchesHeldByOrder(orderId) : new Map<string, StockBatch[]>();
+  const menuById = new Map((await repository.load()).items.map(item => [item.id, item]));
+
+  await updateInventoryRecords(async records => {
+    const current = (id: string) => {
+      const item = menuById.get(id);
+      return item && withInventory(item, records);
+    };
+
+    if (direction < 0) {
+      const heldQuantities = totalQuantities(held);
+      const shortages: StockShortage[] = [];
+      quantities.forEach((extra, id) => {
+        const item = current(id);
+        const available = item && item.active && item.available ? availableStock(item, today) : 0;
+        if (available < extra) {
+          const already = heldQuantities.get(id) ?? 0;
+          shortages.push({
+            id,
+            name: item?.name ?? lines.find(line => line.id === id)!.name,
+            requested: already + extra,
+            available: already + available,
+          });
+        }
+      });
+      if (shortages.length > 0) {
+        throw new HttpError(409, [
+          'Some items are no longer available in the quantity you asked for:',
+          ...shortages.map(({ name, requested, available }) =>
+            (available > 0 ? `${name}: only ${available} left (you asked for ${requested})` : `${name}: sold out`)),
+        ].join('\n'), { unavailable: shortages });
+      }
+    }
+
+    const movements: NewStockMovement[] = [];
+    quantities.forEach((quantity, id) => {
+      const item = current(id);
+      if (!item) return;
+      const change = direction < 0
+        ? sellFromBatches(item, quantity, today)
+        : returnToBatches(item, quantity, heldBatches.get(id) ?? []);
+      const stock = Math.max(item.stock, 0) + direction * quantity;
+      records[id] = { ...inventoryOf(item, records), stock, batches: change.batches };
+      movements.push({
+        itemId: id,
+        itemName: item.name,
+        reason: direction < 0 ? 'sold' : 'returned',
+        quantity: direction * quantity,
+        stockAfter: stock,
+        actor: ORDER_STOCK_AUTHOR,
+        orderId,
+        batches: change.moved,
+      });
+    });
+    await recordStockMovements(movements);
+  });
+}
+
+export const reserveStock = (lines: StockLine[], orderId: string, held: StockLine[] = []) =>
+  changeStock(lines, -1, orderId, held);
+
+export const releaseStock = (lines: StockLine[], orderId: string) => changeStock(lines, 1, orderId);
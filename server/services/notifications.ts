@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import { format } from 'date-fns';
+import type { Order, OrderNotification } from '../../src/types/order';
+import { orderStatusEmails, orderStatusEmailTemplate, renderEmailTemplate } from '../../src/email-templates';
+import { fromDateKey } from '../../src/lib/bakery-time';
+import { customerOrderPath } from '../../src/lib/order-self-service';
+import { createJsonStore } from '../lib/json-store';
+import { createMailTransport } from '../lib/mailer';
+import { serverConfig } from '../config';
+
+const store = createJsonStore<{ notifications: OrderNotification[] }>('notifications.json', () => ({ notifications: [] }));
+
+const transport = createMailTransport(serverConfig.mailTransport);
+
+const describePickup = (label: string, date?: string, time?: string) =>
+  date && time ? `${label}: ${format(fromDateKey(date), 'EEEE, MMMM d, yyyy')} at ${time}` : null;
+
+const pickupDetails = (order: Order) => [
+  order.inStockItems.length > 0 && describePickup('In-stock items', order.inStockPickupDate, order.inStockPickupTime),
+  order.madeToOrderItems.length > 0 && describePickup('Made-to-order items', order.madeToOrderPickupDate, order.madeToOrderPickupTime),
+].filter(Boolean).join('\n');
+
+// Email the customer about the status their order just reached, if that status
+// has a template. A failed send is logged rather than thrown, so it never undoes
+// the status change.
+export async function notifyOrderStatus(order: Order): Promise<OrderNotification | undefined> {
+  const email = orderStatusEmails[order.status];
+  if (!email) return undefined;
+
+  const params = {
+    customer_name: order.customerName,
+    order_number: order.id,
+    pickup_details: pickupDetails(order),
+    tracking_link: `${serverConfig.clientOrigin}${customerOrderPath(order)}`,
+    heading: email.heading,
+    message: email.message,
+  };
+  const subject = renderEmailTemplate(email.subject, params);
+  const notification: OrderNotification = {
+    id: randomUUID(),
+    orderId: order.id,
+    status: order.status,
+    to: order.customerEmail,
+    subject,
+    sentAt: new Date().toISOString(),
+  };
+  try {
+    await transport.send({
+      to: order.customerEmail,
+      subject,
+      html: renderEmailTemplate(orderStatusEmailTemplate, params, true),
+      text: `Dear ${order.customerName},\n\n${email.message}\n\n${params.pickup_details}\n\nTrack your order: ${params.tracking_link}`,
+    });
+  } catch (error) {
+    console.error(`Could not email ${order.customerEmail} about order ${order.id}:`, error);
+    notification.error = error instanceof Error ? error.message : String(error);
+  }
+  await store.update(data => {
+    data.notifications.push(notification);
+  });
+  return notification;
+}
+
+// Oldest first
+export async function listOrderNotifications(orderId: string): Promise<OrderNotification[]> {
+  const { notifications } = await store.read();
+  return notifications.filter(notification => notification.orderId === orderId);
+}
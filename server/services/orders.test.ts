@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NewOrder } from '../../src/types/order';
+import { menuItem } from '../../src/test/menu-item';
+import { HttpError } from '../lib/errors';
+import { listMenuItems } from './menu';
+import { priceOrder } from './orders';
+
+vi.mock('./menu', () => ({ listMenuItems: vi.fn(), reserveStock: vi.fn(), releaseStock: vi.fn() }));
+
+const cookie = menuItem({ id: 'cookie', name: 'Chocolate Chip Cookie', price: 3.5 });
+const focaccia = menuItem({ id: 'focaccia', name: 'Rosemary Focaccia', price: 11, madeToOrder: true, stock: 0 });
+
+const order = (changes: Partial<NewOrder> = {}): NewOrder => ({
+  customerName: 'Sam',
+  customerEmail: 'sam@example.com',
+  customerPhone: '248-555-0100',
+  inStockItems: [],
+  madeToOrderItems: [],
+  total: 0,
+  orderType: 'pickup',
+  ...changes,
+});
+
+describe('priceOrder', () => {
+  beforeEach(() => {
+    vi.mocked(listMenuItems).mockResolvedValue([cookie, focaccia]);
+  });
+
+  it('takes names and prices from the menu and works out the total', async () => {
+    const priced = await priceOrder(order({
+      inStockItems: [{ id: 'cookie', name: 'Free cookie', price: 0, quantity: 4 }],
+      madeToOrderItems: [{ id: 'focaccia', name: 'Focaccia', price: 1, quantity: 2, specialInstructions: 'Sliced' }],
+      total: 1,
+    }));
+    expect(priced.inStockItems).toEqual([{ id: 'cookie', name: 'Chocolate Chip Cookie', price: 3.5, quantity: 4 }]);
+    expect(priced.madeToOrderItems).toEqual([
+      { id: 'focaccia', name: 'Rosemary Focaccia', price: 11, quantity: 2, specialInstructions: 'Sliced' },
+    ]);
+    expect(priced.total).toBe(36);
+  });
+
+  it("sorts lines by the menu's made-to-order flag", async () => {
+    const priced = await priceOrder(order({
+      madeToOrderItems: [
+        { id: 'cookie', name: 'Cookie', price: 3.5, quantity: 2 },
+        { id: 'focaccia', name: 'Focaccia', price: 11, quantity: 1 },
+      ],
+    }));
+    expect(priced.inStockItems.map(line => line.id)).toEqual(['cookie']);
+    expect(priced.madeToOrderItems.map(line => line.id)).toEqual(['focaccia']);
+  });
+
+  it('rejects the order when an item is no longer for sale', async () => {
+    vi.mocked(listMenuItems).mockResolvedValue([cookie, { ...focaccia, available: false }]);
+    const pricing = priceOrder(order({
+      inStockItems: [
+        { id: 'cookie', name: 'Cookie', price: 3.5, quantity: 1 },
+        { id: 'gone', name: 'Old Scone', price: 3, quantity: 1 },
+      ],
+      madeToOrderItems: [{ id: 'focaccia', name: 'Focaccia', price: 11, quantity: 1 }],
+    }));
+    await expect(pricing).rejects.toBeInstanceOf(HttpError);
+    await expect(pricing).rejects.toMatchObject({
+      status: 409,
+      details: { unavailable: ['Old Scone', 'Rosemary Focaccia'] },
+    });
+  });
+});
@@ -0,0 +1,393 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { format } from 'date-fns';
+import type {
+  CustomerOrderChange, CustomerOrderView, NewOrder, Order, OrderActor, OrderEventType, OrderItem, OrderStatus, OrderUpdate,
+  SelfServiceOrder,
+} from '../../src/types/order';
+import type { StaffUser } from '../../src/types/auth';
+import { createJsonStore } from '../lib/json-store';
+import { HttpError } from '../lib/errors';
+import { serverConfig } from '../config';
+import { listMenuItems, releaseStock, reserveStock } from './menu';
+import { getPickupSchedule } from './schedule';
+import { notifyOrderStatus } from './notifications';
+import { computePickupLoad, PICKUP_KIND_LABELS, pickupBookingProblem } from '../../src/lib/pickup-schedule';
+import { bakeryDateKey, fromDateKey, isDateKey } from '../../src/lib/bakery-time';
+import { selfServiceLockedReason } from '../../src/lib/order-self-service';
+import { statusTransitionProblem } from '../../src/lib/order-status';
+import type { PickupKind, PickupLoad, PickupSchedule } from '../../src/types/schedule';
+
+interface OrderData {
+  // Last sequence number issued per day, keyed by yyyyMMdd
+  sequences: Record<string, number>;
+  orders: Order[];
+}
+
+const store = createJsonStore<OrderData>('orders.json', () => ({ sequences: {}, orders: [] }));
+
+// Allocate the next order number, e.g. JT-20261018-0007, dated by the bakery's
+// calendar. Must run inside store.update so that two concurrent orders never
+// read the same sequence.
+const allocateOrderNumber = (data: OrderData, timeZone: string, now: Date) => {
+  const day = bakeryDateKey(timeZone, now).replace(/-/g, '');
+  data.sequences ??= {};
+  const existingIds = new Set(data.orders.map(order => order.id));
+
+  let orderNumber: string;
+  do {
+    data.sequences[day] = (data.sequences[day] || 0) + 1;
+    orderNumber = `${serverConfig.orderNumberPrefix}-${day}-${String(data.sequences[day]).padStart(4, '0')}`;
+  } while (existingIds.has(orderNumber));
+
+  return orderNumber;
+};
+
+const findOrder = (data: OrderData, orderId: string) => {
+  const order = data.orders.find(o => o.id === orderId);
+  if (!order) {
+    throw new HttpError(404, `Order #${orderId} not found`);
+  }
+  return order;
+};
+
+// Orders placed before pickup dates were stored as calendar days carry a full
+// timestamp; read those as the bakery's day at that instant
+const toPickupDay = (value: string | undefined, timeZone: string) =>
+  value && !isDateKey(value) ? bakeryDateKey(timeZone, value) : value;
+
+async function withPickupDays(data: OrderData): Promise<OrderData> {
+  const { timezone } = await getPickupSchedule();
+  data.orders.forEach(order => {
+    order.inStockPickupDate = toPickupDay(order.inStockPickupDate, timezone);
+    order.madeToOrderPickupDate = toPickupDay(order.madeToOrderPickupDate, timezone);
+  });
+  return data;
+}
+
+const readOrders = async () => withPickupDays(await store.read());
+
+export async function listOrders(): Promise<Order[]> {
+  const { orders } = await readOrders();
+  return orders;
+}
+
+export async function getOrder(orderId: string): Promise<Order> {
+  return findOrder(await readOrders(), orderId);
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// The customer proves it's their order with the email or phone they ordered with
+const matchesContact = (order: Order, contact: string) => {
+  const trimmed = contact.trim();
+  if (trimmed.includes('@')) {
+    return trimmed.toLowerCase() === order.customerEmail.trim().toLowerCase();
+  }
+  return digitsOnly(trimmed).length >= 10 && digitsOnly(trimmed) === digitsOnly(order.customerPhone);
+};
+
+const toCustomerView = (order: Order): CustomerOrderView => ({
+  id: order.id,
+  customerName: order.customerName,
+  inStockItems: order.inStockItems,
+  madeToOrderItems: order.madeToOrderItems,
+  inStockPickupDate: order.inStockPickupDate,
+  inStockPickupTime: order.inStockPickupTime,
+  madeToOrderPickupDate: order.madeToOrderPickupDate,
+  madeToOrderPickupTime: order.madeToOrderPickupTime,
+  status: order.status,
+  total: order.total,
+  createdAt: order.createdAt,
+  specialInstructions: order.specialInstructions,
+  notes: order.notes,
+  paymentStatus: order.paymentStatus,
+  paymentMethod: order.paymentMethod,
+});
+
+// Same answer for an unknown order and a wrong contact, so order numbers can't be probed
+export async function lookupCustomerOrder(orderId: string, contact: string): Promise<CustomerOrderView> {
+  const order = (await readOrders()).orders.find(o => o.id === orderId.trim().toUpperCase());
+  if (!order || !matchesContact(order, contact)) {
+    throw new HttpError(404, 'We couldn\'t find an order with that number and contact details');
+  }
+  return toCustomerView(order);
+}
+
+// Aggregate counts only, so the order page can grey out full pickup times
+export async function getPickupLoad() {
+  return computePickupLoad((await readOrders()).orders);
+}
+
+// The order page checks all of this too, but the schedule may have changed, a
+// deadline passed or two customers picked the last place in a slot meanwhile
+type OrderPickups = Pick<Order,
+  | 'inStockItems' | 'madeToOrderItems'
+  | 'inStockPickupDate' | 'inStockPickupTime' | 'madeToOrderPickupDate' | 'madeToOrderPickupTime'>;
+
+function assertPickupBookable(
+  load: PickupLoad, schedule: PickupSchedule, order: OrderPickups, now: Date, kinds: PickupKind[] = ['inStock', 'madeToOrder'],
+) {
+  const pickups: [PickupKind, string | undefined, string | undefined, OrderItem[]][] = [
+    ['inStock', order.inStockPickupDate, order.inStockPickupTime, order.inStockItems],
+    ['madeToOrder', order.madeToOrderPickupDate, order.madeToOrderPickupTime, order.madeToOrderItems],
+  ];
+  pickups.forEach(([kind, date, time, lines]) => {
+    const items = lines.reduce((sum, item) => sum + item.quantity, 0);
+    if (items === 0 || !kinds.includes(kind)) return;
+    if (!date || !time) {
+      throw new HttpError(400, `Choose a pickup day and time for ${PICKUP_KIND_LABELS[kind].toLowerCase()}`);
+    }
+    const problem = pickupBookingProblem(schedule, load, kind, date, time, items, now);
+    if (problem) {
+      throw new HttpError(409, problem);
+    }
+  });
+}
+
+// Names, prices and whether a line is made to order come from the menu rather
+// than the order page, so in-stock items always reserve stock. The total is
+// worked out from them. Lines for items that are no longer for sale reject the
+// whole order.
+export async function priceOrder(orderData: NewOrder): Promise<NewOrder> {
+  const menuById = new Map((await listMenuItems()).map(item => [item.id, item]));
+  const unavailable: string[] = [];
+  const lines = [...orderData.inStockItems, ...orderData.madeToOrderItems].flatMap(line => {
+    const item = menuById.get(line.id);
+    if (!item || !item.active || !item.available) {
+      unavailable.push(item?.name ?? line.name);
+      return [];
+    }
+    return [{ line: { ...line, name: item.name, price: item.price }, madeToOrder: item.madeToOrder }];
+  });
+  if (unavailable.length > 0) {
+    throw new HttpError(409, `Some items are no longer on the menu: ${unavailable.join(', ')}`, { unavailable });
+  }
+
+  const inStockItems = lines.filter(({ madeToOrder }) => !madeToOrder).map(({ line }) => line);
+  const madeToOrderItems = lines.filter(({ madeToOrder }) => madeToOrder).map(({ line }) => line);
+  const total = [...inStockItems, ...madeToOrderItems].reduce((sum, item) => sum + item.price * item.quantity, 0);
+  return { ...orderData, inStockItems, madeToOrderItems, total };
+}
+
+// Cancelled orders gave their stock back and completed ones were collected
+const holdsStock = (order: Order) => order.status !== 'cancelled' && order.status !== 'completed';
+
+const customerActor = (order: Order): OrderActor => ({ kind: 'customer', name: order.customerName });
+
+const staffActor = (user: StaffUser): OrderActor => ({ kind: 'staff', name: user.name, id: user.id });
+
+// History is only ever appended to
+const recordEvent = (order: Order, actor: OrderActor, type: OrderEventType, summary: string) => {
+  order.history ??= [];
+  order.history.push({ at: new Date().toISOString(), actor, type, summary });
+};
+
+const statusChangeSummary = (from: OrderStatus, to: OrderStatus) => `Status changed from ${from} to ${to}`;
+
+// What an admin update changed, as history entries
+function recordUpdate(order: Order, updates: OrderUpdate, actor: OrderActor) {
+  if (updates.status && updates.status !== order.status) {
+    recordEvent(order, actor, 'status-changed', statusChangeSummary(order.status, updates.status));
+  }
+  if (updates.paymentStatus === 'refunded' && order.paymentStatus !== 'refunded') {
+    recordEvent(order, actor, 'refunded', 'Payment refunded');
+  } else if (updates.paymentStatus === 'paid' && (order.paymentStatus !== 'paid'
+    || (updates.paymentMethod !== undefined && updates.paymentMethod !== order.paymentMethod))) {
+    recordEvent(order, actor, 'payment-recorded', `Payment recorded${updates.paymentMethod ? ` (${updates.paymentMethod})` : ''}`);
+  }
+  if (updates.notes !== undefined && updates.notes !== order.notes) {
+    recordEvent(order, actor, 'note-added', updates.notes || 'Note cleared');
+  }
+  if (updates.priority && updates.priority !== order.priority) {
+    recordEvent(order, actor, 'edited', `Priority set to ${updates.priority}`);
+  }
+}
+
+export async function createOrder(submitted: NewOrder): Promise<Order> {
+  const schedule = await getPickupSchedule();
+  const orderData = await priceOrder(submitted);
+  return store.update(async data => {
+    await withPickupDays(data);
+    const now = new Date();
+    assertPickupBookable(computePickupLoad(data.orders), schedule, orderData, now);
+    const id = allocateOrderNumber(data, schedule.timezone, now);
+    // Nothing is written if the in-stock items can't be covered
+    await reserveStock(orderData.inStockItems, id);
+    const newOrder: Order = {
+      ...orderData,
+      id,
+      createdAt: now.toISOString(),
+      status: 'pending',
+      paymentStatus: 'pending',
+      priority: 'normal',
+      notes: 'Pending payment',
+      manageToken: randomBytes(24).toString('base64url'),
+      history: [],
+    };
+    recordEvent(newOrder, customerActor(newOrder), 'created', 'Order placed');
+    data.orders.push(newOrder);
+    return newOrder;
+  });
+}
+
+export async function updateOrder(orderId: string, updates: OrderUpdate, user: StaffUser): Promise<Order> {
+  const schedule = await getPickupSchedule();
+  let statusChanged = false;
+  const updated = await store.update(async data => {
+    const order = findOrder(await withPickupDays(data), orderId);
+    statusChanged = !!updates.status && updates.status !== order.status;
+    const problem = updates.status && statusTransitionProblem(
+      { status: order.status, paymentStatus: updates.paymentStatus ?? order.paymentStatus }, updates.status);
+    if (problem) {
+      throw new HttpError(409, problem);
+    }
+    const isCancelling = updates.status === 'cancelled' && order.status !== 'cancelled';
+    const isReopening = order.status === 'cancelled' && !!updates.status && updates.status !== 'cancelled';
+    if (isCancelling) {
+      await releaseStock(order.inStockItems, order.id);
+    } else if (isReopening) {
+      // Its pickup slots may have filled up or closed since it was cancelled
+      assertPickupBookable(computePickupLoad(data.orders.filter(o => o !== order)), schedule, order, new Date());
+      await reserveStock(order.inStockItems, order.id);
+    }
+    recordUpdate(order, updates, staffActor(user));
+    Object.assign(order, updates);
+    if (updates.status === 'completed') {
+      order.actualCompletionTime = new Date().toISOString();
+    }
+    return order;
+  });
+  // Sent once the change is saved, so the customer never hears of one that failed
+  if (statusChanged) {
+    await notifyOrderStatus(updated);
+  }
+  return updated;
+}
+
+export async function deleteOrder(orderId: string): Promise<void> {
+  await store.update(async data => {
+    const order = findOrder(data, orderId);
+    if (holdsStock(order)) {
+      await releaseStock(order.inStockItems, order.id);
+    }
+    data.orders = data.orders.filter(o => o.id !== orderId);
+  });
+}
+
+const tokenMatches = (order: Order, token: string) => {
+  if (!order.manageToken) return false;
+  const expected = Buffer.from(order.manageToken);
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+// A wrong token gets the same answer as an unknown order
+const findManagedOrder = (data: OrderData, orderId: string, token: string) => {
+  const order = data.orders.find(o => o.id === orderId);
+  if (!order || !tokenMatches(order, token)) {
+    throw new HttpError(404, 'This order link is not valid. Please use the link from your confirmation email.');
+  }
+  return order;
+};
+
+const assertChangeable = (schedule: PickupSchedule, order: Order) => {
+  const reason = selfServiceLockedReason(schedule, order);
+  if (reason) {
+    throw new HttpError(409, `${reason} Please contact us to make changes.`);
+  }
+};
+
+export async function getSelfServiceOrder(orderId: string, token: string): Promise<SelfServiceOrder> {
+  const schedule = await getPickupSchedule();
+  const order = findManagedOrder(await readOrders(), orderId, token);
+  return { ...toCustomerView(order), lockedReason: selfServiceLockedReason(schedule, order) };
+}
+
+const describePickupDay = (date?: string, time?: string) =>
+  (date && time ? `${format(fromDateKey(date), 'EEE, MMM d')} at ${time}` : 'none');
+
+// Quantities and pickup times a customer changed from their manage link
+export async function changeOrderByCustomer(orderId: string, token: string, change: CustomerOrderChange): Promise<SelfServiceOrder> {
+  const schedule = await getPickupSchedule();
+  return store.update(async data => {
+    const order = findManagedOrder(await withPickupDays(data), orderId, token);
+    assertChangeable(schedule, order);
+
+    const unknown = Object.keys(change.quantities).filter(id =>
+      ![...order.inStockItems, ...order.madeToOrderItems].some(item => item.id === id));
+    if (unknown.length > 0) {
+      throw new HttpError(400, 'Only items already on the order can be changed');
+    }
+    const requantify = (items: OrderItem[]) => items
+      .map(item => ({ ...item, quantity: change.quantities[item.id] ?? item.quantity }))
+      .filter(item => item.quantity > 0);
+    const next: OrderPickups = {
+      inStockItems: requantify(order.inStockItems),
+      madeToOrderItems: requantify(order.madeToOrderItems),
+      inStockPickupDate: change.inStockPickupDate ?? order.inStockPickupDate,
+      inStockPickupTime: change.inStockPickupTime ?? order.inStockPickupTime,
+      madeToOrderPickupDate: change.madeToOrderPickupDate ?? order.madeToOrderPickupDate,
+      madeToOrderPickupTime: change.madeToOrderPickupTime ?? order.madeToOrderPickupTime,
+    };
+    if (next.inStockItems.length + next.madeToOrderItems.length === 0) {
+      throw new HttpError(400, 'An order needs at least one item. To remove everything, cancel the order instead.');
+    }
+
+    const summary: string[] = [];
+    [...order.inStockItems, ...order.madeToOrderItems].forEach(item => {
+      const quantity = change.quantities[item.id];
+      if (quantity !== undefined && quantity !== item.quantity) {
+        summary.push(quantity === 0 ? `Removed ${item.name}` : `${item.name}: ${item.quantity} → ${quantity}`);
+      }
+    });
+
+    // Only re-check pickups that moved or grew, so a booking that has since
+    // gone over a lowered capacity can still shrink
+    const quantityOf = (items: OrderItem[]) => items.reduce((sum, item) => sum + item.quantity, 0);
+    const recheck: PickupKind[] = [];
+    (['inStock', 'madeToOrder'] as const).forEach(kind => {
+      const [itemsKey, dateKey, timeKey] = kind === 'inStock'
+        ? ['inStockItems', 'inStockPickupDate', 'inStockPickupTime'] as const
+        : ['madeToOrderItems', 'madeToOrderPickupDate', 'madeToOrderPickupTime'] as const;
+      const moved = next[dateKey] !== order[dateKey] || next[timeKey] !== order[timeKey];
+      if (moved && next[itemsKey].length > 0) {
+        summary.push(`${PICKUP_KIND_LABELS[kind]} pickup moved to ${describePickupDay(next[dateKey], next[timeKey])}`);
+      }
+      if (moved || quantityOf(next[itemsKey]) > quantityOf(order[itemsKey])) {
+        recheck.push(kind);
+      }
+    });
+    if (summary.length === 0) {
+      return { ...toCustomerView(order), lockedReason: null };
+    }
+    const load = computePickupLoad(data.orders.filter(o => o !== order));
+    assertPickupBookable(load, schedule, next, new Date(), recheck);
+
+    // Take any extra stock first; if that fails nothing has changed yet
+    const stockDelta = (sign: 1 | -1) => order.inStockItems.flatMap(item => {
+      const difference = sign * ((next.inStockItems.find(line => line.id === item.id)?.quantity ?? 0) - item.quantity);
+      return difference > 0 ? [{ ...item, quantity: difference }] : [];
+    });
+    await reserveStock(stockDelta(1), order.id, order.inStockItems);
+    await releaseStock(stockDelta(-1), order.id);
+
+    Object.assign(order, next);
+    order.total = [...next.inStockItems, ...next.madeToOrderItems].reduce((sum, item) => sum + item.price * item.quantity, 0);
+    recordEvent(order, customerActor(order), 'edited', summary.join('; '));
+    return { ...toCustomerView(order), lockedReason: selfServiceLockedReason(schedule, order) };
+  });
+}
+
+export async function cancelOrderByCustomer(orderId: string, token: string): Promise<SelfServiceOrder> {
+  const schedule = await getPickupSchedule();
+  const cancelled = await store.update(async data => {
+    const order = findManagedOrder(await withPickupDays(data), orderId, token);
+    assertChangeable(schedule, order);
+    await releaseStock(order.inStockItems, order.id);
+    recordEvent(order, customerActor(order), 'status-changed', `${statusChangeSummary(order.status, 'cancelled')} by the customer`);
+    order.status = 'cancelled';
+    return order;
+  });
+  await notifyOrderStatus(cancelled);
+  return { ...toCustomerView(cancelled), lockedReason: selfServiceLockedReason(schedule, cancelled) };
+}
@@ -0,0 +1,21 @@
+import type { PickupSchedule } from '../../src/types/schedule';
+import { DEFAULT_PICKUP_SCHEDULE } from '../../src/lib/pickup-schedule';
+import { createJsonStore } from '../lib/json-store';
+
+const store = createJsonStore<PickupSchedule>('schedule.json', () => JSON.parse(JSON.stringify(DEFAULT_PICKUP_SCHEDULE)));
+
+// Fill in settings added since the schedule was last saved
+export async function getPickupSchedule(): Promise<PickupSchedule> {
+  const schedule = await store.read();
+  return {
+    ...DEFAULT_PICKUP_SCHEDULE,
+    ...schedule,
+    inStock: { ...DEFAULT_PICKUP_SCHEDULE.inStock, ...schedule.inStock },
+    madeToOrder: { ...DEFAULT_PICKUP_SCHEDULE.madeToOrder, ...schedule.madeToOrder },
+  };
+}
+
+export const updatePickupSchedule = (schedule: PickupSchedule) => store.update(data => {
+  Object.assign(data, schedule);
+  return data;
+});
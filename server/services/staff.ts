@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import bcrypt from 'bcryptjs';
+import type { NewStaffUser, StaffUser, StaffUserUpdate } from '../../src/types/auth';
+import { createJsonStore } from '../lib/json-store';
+import { HttpError } from '../lib/errors';
+import { serverConfig } from '../config';
+
+interface StaffRecord extends StaffUser {
+  passwordHash: string;
+}
+
+interface StaffData {
+  users: StaffRecord[];
+}
+
+const store = createJsonStore<StaffData>('staff.json', () => ({ users: [] }));
+
+const PASSWORD_ROUNDS = 12;
+
+// Never send password hashes to the client
+const toStaffUser = ({ passwordHash, ...user }: StaffRecord): StaffUser => user;
+
+const findUser = (data: StaffData, userId: string) => {
+  const user = data.users.find(u => u.id === userId);
+  if (!user) {
+    throw new HttpError(404, 'Staff member not found');
+  }
+  return user;
+};
+
+const activeOwnerCount = (data: StaffData) =>
+  data.users.filter(u => u.role === 'owner' && u.active).length;
+
+// Create the first owner account from ADMIN_PASSWORD_HASH so a fresh install can sign in
+export async function ensureOwnerAccount(): Promise<void> {
+  if (!serverConfig.adminPasswordHash) return;
+  await store.update(data => {
+    if (data.users.length > 0) return;
+    data.users.push({
+      id: randomUUID(),
+      username: serverConfig.adminUsername,
+      name: 'Owner',
+      role: 'owner',
+      active: true,
+      createdAt: new Date().toISOString(),
+      passwordHash: serverConfig.adminPasswordHash,
+    });
+    console.log(`Created owner account "${serverConfig.adminUsername}"`);
+  });
+}
+
+export async function verifyCredentials(username: string, password: string): Promise<StaffUser | null> {
+  const { users } = await store.read();
+  const user = users.find(u => u.username.toLowerCase() === username.toLowerCase());
+  if (!user || !user.active) return null;
+  return (await bcrypt.compare(password, user.passwordHash)) ? toStaffUser(user) : null;
+}
+
+export async function getActiveStaffUser(userId: string): Promise<StaffUser | null> {
+  const { users } = await store.read();
+  const user = users.find(u => u.id === userId);
+  return user && user.active ? toStaffUser(user) : null;
+}
+
+export async function listStaff(): Promise<StaffUser[]> {
+  const { users } = await store.read();
+  return users.map(toStaffUser);
+}
+
+export async function createStaffUser(input: NewStaffUser): Promise<StaffUser> {
+  const passwordHash = await bcrypt.hash(input.password, PASSWORD_ROUNDS);
+  return store.update(data => {
+    if (data.users.some(u => u.username.toLowerCase() === input.username.toLowerCase())) {
+      throw new HttpError(409, `Username "${input.username}" is already taken`);
+    }
+    const user: StaffRecord = {
+      id: randomUUID(),
+      username: input.username,
+      name: input.name,
+      role: input.role,
+      active: true,
+      createdAt: new Date().toISOString(),
+      passwordHash,
+    };
+    data.users.push(user);
+    return toStaffUser(user);
+  });
+}
+
+export async function updateStaffUser(userId: string, updates: StaffUserUpdate): Promise<StaffUser> {
+  const { password, ...fields } = updates;
+  const passwordHash = password ? await bcrypt.hash(password, PASSWORD_ROUNDS) : undefined;
+
+  return store.update(data => {
+    const user = findUser(data, userId);
+    const losesOwner = user.role === 'owner' && user.active &&
+      ((fields.role && fields.role !== 'owner') || fields.active === false);
+    if (losesOwner && activeOwnerCount(data) === 1) {
+      throw new HttpError(409, 'There must always be at least one active owner');
+    }
+
+    Object.assign(user, fields);
+    if (passwordHash) {
+      user.passwordHash = passwordHash;
+    }
+    return toStaffUser(user);
+  });
+}
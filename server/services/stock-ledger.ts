@@ -0,0 +1,28 @@
+import { randomUUID } from 'crypto';
+import type { StockMovement } from '../../src/types/stock';
+import { createJsonStore } from '../lib/json-store';
+
+const store = createJsonStore<{ movements: StockMovement[] }>('stock-movements.json', () => ({ movements: [] }));
+
+export type NewStockMovement = Omit<StockMovement, 'id' | 'at'>;
+
+// Append-only: movements are never edited, a mistake is fixed with a correction
+export function recordStockMovements(movements: NewStockMovement[]): Promise<void> {
+  if (movements.length === 0) return Promise.resolve();
+  return store.update(data => {
+    const at = new Date().toISOString();
+    data.movements.push(...movements.map(movement => ({ ...movement, id: randomUUID(), at })));
+  });
+}
+
+// Newest first
+export async function listStockMovements(itemId: string): Promise<StockMovement[]> {
+  const { movements } = await store.read();
+  return movements.filter(movement => movement.itemId === itemId).reverse();
+}
+
+// Oldest first, so batches can be followed in the order they moved
+export async function listOrderStockMovements(orderId: string): Promise<StockMovement[]> {
+  const { movements } = await store.read();
+  return movements.filter(movement => movement.orderId === orderId);
+}
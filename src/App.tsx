@@ -1,7 +1,7 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, createBrowserRouter, RouterProvider } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { MenuProvider } from "@/contexts/MenuContext";
@@ -10,16 +10,30 @@ import Layout from "./components/Layout";
 import HomePage from "./pages/Index";
 import MenuPage from "./pages/Menu";
 import OrderPage from "./pages/Order";
+import OrderTrackingPage from "./pages/OrderTracking";
 import FAQPage from "./pages/FAQ";
 import ContactPage from "./pages/Contact";
 import AdminPage from "./pages/Admin";
 import LoginPage from "./pages/Login";
 import OrderManagement from "./pages/OrderManagement";
 import InventoryManagement from "./pages/InventoryManagement";
+import ProductionSheet from "./pages/ProductionSheet";
 import ProtectedRoute from "./components/ProtectedRoute";
 import NotFound from "./pages/NotFound";
+import { ApiError } from "@/lib/api";
 
-const queryClient = new QueryClient();
+// An expired or revoked session surfaces as a 401 from any admin request;
+// re-check the session so protected pages bounce back to the login screen.
+const handleApiError = (error: Error) => {
+  if (error instanceof ApiError && error.status === 401) {
+    queryClient.invalidateQueries({ queryKey: ['session'] });
+  }
+};
+
+const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleApiError }),
+  mutationCache: new MutationCache({ onError: handleApiError }),
+});
 
 const router = createBrowserRouter([
   {
@@ -34,6 +48,10 @@ const router = createBrowserRouter([
     path: "/order",
     element: <Layout><OrderPage /></Layout>
   },
+  {
+    path: "/order/:id",
+    element: <Layout><OrderTrackingPage /></Layout>
+  },
   {
     path: "/faq",
     element: <Layout><FAQPage /></Layout>
@@ -60,17 +78,27 @@ const router = createBrowserRouter([
     path: "/admin/orders",
     element: (
       <Layout>
-        <ProtectedRoute>
+        <ProtectedRoute permission="orders:view">
           <OrderManagement />
         </ProtectedRoute>
       </Layout>
     )
   },
+  {
+    path: "/admin/production",
+    element: (
+      <Layout>
+        <ProtectedRoute permission="orders:view">
+          <ProductionSheet />
+        </ProtectedRoute>
+      </Layout>
+    )
+  },
   {
     path: "/admin/inventory",
     element: (
       <Layout>
-        <ProtectedRoute>
+        <ProtectedRoute permission="inventory:manage">
           <InventoryManagement />
         </ProtectedRoute>
       </Layout>
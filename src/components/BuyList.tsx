@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShoppingCart } from 'lucide-react';
+import { useOrder } from '@/contexts/OrderContext';
+import { useMenu } from '@/contexts/MenuContext';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { addDaysToKey, bakeryDateKey } from '@/lib/bakery-time';
+import { buildBuyList, formatQuantity } from '@/lib/ingredients';
+import { buildProductionSheet, describeProductionDate, upcomingProductionDates } from '@/lib/production-sheet';
+import * as ingredientApi from '@/lib/ingredient-api';
+import { INGREDIENTS_QUERY_KEY } from '@/lib/ingredient-api';
+
+const HORIZONS = [3, 7, 14];
+
+// Ingredients to buy for every made-to-order pickup in the next few days
+export function BuyList() {
+  const { orders } = useOrder();
+  const { menuItems } = useMenu();
+  const { schedule } = usePickupSchedule();
+  const [days, setDays] = useState(7);
+
+  const { data: catalog, isLoading, error } = useQuery({
+    queryKey: INGREDIENTS_QUERY_KEY,
+    queryFn: ingredientApi.fetchIngredientCatalog,
+  });
+
+  const today = bakeryDateKey(schedule.timezone);
+  const dates = upcomingProductionDates(orders, today).filter(date => date < addDaysToKey(today, days));
+  const planned = dates.flatMap(date =>
+    buildProductionSheet(orders, menuItems, date).categories.flatMap(category => category.lines));
+  const buyList = catalog && buildBuyList(planned, catalog);
+
+  return (
+    <Card className="break-inside-avoid print:shadow-none">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShoppingCart className="h-5 w-5" />
+              Buy List
+            </CardTitle>
+            <CardDescription>
+              {dates.length === 0
+                ? 'No made-to-order pickups in this period.'
+                : `Recipes for ${dates.map(describeProductionDate).join('; ')}, less what's on hand.`}
+            </CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-full md:w-[160px] print:hidden">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HORIZONS.map(horizon => (
+                <SelectItem key={horizon} value={String(horizon)}>Next {horizon} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-muted-foreground">Loading ingredients...</p>}
+        {error && <p className="text-red-500">{error.message}</p>}
+        {buyList && dates.length > 0 && (
+          <>
+            {buyList.needs.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead className="text-right">Needed</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">To Buy</TableHead>
+                    <TableHead>Used In</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {buyList.needs.map(({ ingredient, needed, toBuy, usedBy }) => (
+                    <TableRow key={ingredient.id}>
+                      <TableCell className="font-medium">{ingredient.name}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(needed, ingredient.unit)}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(ingredient.onHand, ingredient.unit)}</TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {toBuy > 0 ? formatQuantity(toBuy, ingredient.unit) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{usedBy.join(', ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {buyList.missingRecipes.length > 0 && (
+              <p className="text-sm text-amber-700">
+                No recipe yet for {buyList.missingRecipes.join(', ')}, so they aren't counted. Add recipes under Ingredients in Admin.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@ import { Phone, Mail } from 'lucide-react';
 
 const Footer = () => {
   return (
-    <footer className="bg-bakery-brown text-white mt-12">
+    <footer className="bg-bakery-brown text-white mt-12 print:hidden">
       <div className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           <div>
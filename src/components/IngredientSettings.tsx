@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2, Wheat } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useMenu } from '@/contexts/MenuContext';
+import { compatibleUnits, INGREDIENT_UNITS } from '@/lib/ingredients';
+import { batchSizeOf } from '@/lib/production-sheet';
+import * as ingredientApi from '@/lib/ingredient-api';
+import { INGREDIENTS_QUERY_KEY } from '@/lib/ingredient-api';
+import type { Ingredient, IngredientCatalog, IngredientUnit, RecipeLine } from '@/types/ingredient';
+
+const emptyCatalog: IngredientCatalog = { ingredients: [], recipes: {} };
+const emptyIngredient = { name: '', unit: 'kg' as IngredientUnit, onHand: 0 };
+
+// The ingredient catalog with what's on hand, and a per-batch recipe for each menu item
+export function IngredientSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { menuItems } = useMenu();
+  const [catalog, setCatalog] = useState<IngredientCatalog>(emptyCatalog);
+  const [newIngredient, setNewIngredient] = useState(emptyIngredient);
+  const [recipeItemId, setRecipeItemId] = useState<string>();
+
+  const { data: savedCatalog, isLoading } = useQuery({
+    queryKey: INGREDIENTS_QUERY_KEY,
+    queryFn: ingredientApi.fetchIngredientCatalog,
+  });
+
+  useEffect(() => {
+    if (savedCatalog) setCatalog(savedCatalog);
+  }, [savedCatalog]);
+
+  const saveMutation = useMutation({
+    mutationFn: ingredientApi.updateIngredientCatalog,
+    onSuccess: (saved) => {
+      queryClient.setQueryData(INGREDIENTS_QUERY_KEY, saved);
+      toast({
+        title: "Ingredients saved",
+        description: "The buy list on the production sheet now uses these recipes and stock levels.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: <span className="whitespace-pre-line">{error.message}</span>,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const isUsed = (ingredientId: string) =>
+    Object.values(catalog.recipes).some(lines => lines.some(line => line.ingredientId === ingredientId));
+
+  const updateIngredient = (id: string, updates: Partial<Ingredient>) => {
+    setCatalog(prev => ({
+      ...prev,
+      ingredients: prev.ingredients.map(ingredient => (ingredient.id === id ? { ...ingredient, ...updates } : ingredient)),
+    }));
+  };
+
+  const addIngredient = () => {
+    setCatalog(prev => ({
+      ...prev,
+      ingredients: [...prev.ingredients, { ...newIngredient, id: crypto.randomUUID(), name: newIngredient.name.trim() }]
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+    setNewIngredient(emptyIngredient);
+  };
+
+  const removeIngredient = (id: string) => {
+    setCatalog(prev => ({ ...prev, ingredients: prev.ingredients.filter(ingredient => ingredient.id !== id) }));
+  };
+
+  const recipe = recipeItemId ? catalog.recipes[recipeItemId] ?? [] : [];
+  const recipeItem = menuItems.find(item => item.id === recipeItemId);
+
+  const setRecipe = (lines: RecipeLine[]) => {
+    if (!recipeItemId) return;
+    setCatalog(prev => ({ ...prev, recipes: { ...prev.recipes, [recipeItemId]: lines } }));
+  };
+
+  const updateRecipeLine = (index: number, updates: Partial<RecipeLine>) => {
+    setRecipe(recipe.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  const addRecipeLine = () => {
+    const [ingredient] = catalog.ingredients.filter(ingredient => !recipe.some(line => line.ingredientId === ingredient.id));
+    if (ingredient) setRecipe([...recipe, { ingredientId: ingredient.id, quantity: 1, unit: ingredient.unit }]);
+  };
+
+  // Switching ingredients keeps the unit only if it still makes sense
+  const changeRecipeIngredient = (index: number, ingredientId: string) => {
+    const ingredient = catalog.ingredients.find(({ id }) => id === ingredientId)!;
+    const unit = compatibleUnits(ingredient.unit).includes(recipe[index].unit) ? recipe[index].unit : ingredient.unit;
+    updateRecipeLine(index, { ingredientId, unit });
+  };
+
+  // Made-to-order items first, as they're what the buy list plans for
+  const recipeItems = menuItems
+    .filter(item => item.active)
+    .sort((a, b) => Number(b.madeToOrder) - Number(a.madeToOrder) || a.name.localeCompare(b.name));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wheat className="h-5 w-5" />
+          Ingredients & Recipes
+        </CardTitle>
+        <CardDescription>
+          What's in the pantry, and what goes into one batch of each menu item. Together with the production sheet they make the buy list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading ingredients...</p>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <h3 className="font-semibold">Ingredients</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Bought in</TableHead>
+                    <TableHead>On hand</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {catalog.ingredients.map(ingredient => (
+                    <TableRow key={ingredient.id}>
+                      <TableCell>
+                        <Input
+                          value={ingredient.name}
+                          onChange={(e) => updateIngredient(ingredient.id, { name: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={ingredient.unit}
+                          onValueChange={(unit) => updateIngredient(ingredient.id, { unit: unit as IngredientUnit })}
+                        >
+                          <SelectTrigger className="w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {/* Recipes can't follow a switch from weight to volume */}
+                            {(isUsed(ingredient.id) ? compatibleUnits(ingredient.unit) : INGREDIENT_UNITS).map(unit => (
+                              <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="w-32"
+                          value={ingredient.onHand}
+                          onChange={(e) => updateIngredient(ingredient.id, { onHand: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeIngredient(ingredient.id)}
+                          disabled={isUsed(ingredient.id)}
+                          title={isUsed(ingredient.id) ? 'Remove it from recipes first' : 'Remove ingredient'}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="ingredient-name">New ingredient</Label>
+                  <Input
+                    id="ingredient-name"
+                    placeholder="Bread flour"
+                    value={newIngredient.name}
+                    onChange={(e) => setNewIngredient(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <Select
+                  value={newIngredient.unit}
+                  onValueChange={(unit) => setNewIngredient(prev => ({ ...prev, unit: unit as IngredientUnit }))}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INGREDIENT_UNITS.map(unit => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={addIngredient} disabled={!newIngredient.name.trim()}>
+                  <Plus className="mr-2 h-4 w-4" /> Add
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="font-semibold">Recipes</h3>
+              <Select value={recipeItemId ?? ''} onValueChange={setRecipeItemId}>
+                <SelectTrigger className="w-full md:w-[320px]">
+                  <SelectValue placeholder="Choose a menu item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipeItems.map(item => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}{item.madeToOrder ? ' (made to order)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {recipeItem && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Ingredients for one batch of {batchSizeOf(recipeItem)}. Change the batch size in the menu editor.
+                  </p>
+                  {recipe.map((line, index) => {
+                    const ingredient = catalog.ingredients.find(({ id }) => id === line.ingredientId);
+                    return (
+                      <div key={line.ingredientId} className="flex flex-wrap items-center gap-2">
+                        <Select value={line.ingredientId} onValueChange={(id) => changeRecipeIngredient(index, id)}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {catalog.ingredients
+                              .filter(option => option.id === line.ingredientId || !recipe.some(other => other.ingredientId === option.id))
+                              .map(option => (
+                                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="w-28"
+                          value={line.quantity}
+                          onChange={(e) => updateRecipeLine(index, { quantity: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                        />
+                        <Select value={line.unit} onValueChange={(unit) => updateRecipeLine(index, { unit: unit as IngredientUnit })}>
+                          <SelectTrigger className="w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(ingredient ? compatibleUnits(ingredient.unit) : INGREDIENT_UNITS).map(unit => (
+                              <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="icon" onClick={() => setRecipe(recipe.filter((_, i) => i !== index))}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    variant="outline"
+                    onClick={addRecipeLine}
+                    disabled={recipe.length >= catalog.ingredients.length}
+                  >
+                    <Plus className="mr-2 h-4 w-4" /> Add ingredient
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                disabled={!savedCatalog || saveMutation.isPending}
+                onClick={() => savedCatalog && setCatalog(savedCatalog)}
+              >
+                Undo changes
+              </Button>
+              <Button onClick={() => saveMutation.mutate(catalog)} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save ingredients
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
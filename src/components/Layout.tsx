@@ -10,7 +10,7 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   return (
     <div className="min-h-screen flex flex-col bg-white">
-      <div className="w-full h-3 bg-bakery-brown" />
+      <div className="w-full h-3 bg-bakery-brown print:hidden" />
       <Navbar />
       <main className="flex-grow">
         {children}
@@ -19,7 +19,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       {/* Back to top button */}
       <a 
         href="#" 
-        className="fixed bottom-8 right-8 bg-bakery-brown/90 hover:bg-bakery-light text-white p-3 rounded-full shadow-lg transition-colors duration-300"
+        className="fixed bottom-8 right-8 print:hidden bg-bakery-brown/90 hover:bg-bakery-light text-white p-3 rounded-full shadow-lg transition-colors duration-300"
         aria-label="Back to top"
       >
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOrder } from '@/contexts/OrderContext';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { addDaysToKey, fromDateKey } from '@/lib/bakery-time';
+import { getEarliestPickupDate, getPickupSlots, isPickupDateBookable, loadWithoutOrder, PICKUP_KIND_LABELS } from '@/lib/pickup-schedule';
+import { MENU_QUERY_KEY } from '@/lib/menu-api';
+import * as orderApi from '@/lib/order-api';
+import type { CustomerOrderChange, OrderItem, SelfServiceOrder } from '@/types/order';
+import type { PickupKind } from '@/types/schedule';
+
+// How far ahead customers can move a pickup
+const RESCHEDULE_DAYS = 60;
+
+const PICKUP_FIELDS = {
+  inStock: { items: 'inStockItems', date: 'inStockPickupDate', time: 'inStockPickupTime' },
+  madeToOrder: { items: 'madeToOrderItems', date: 'madeToOrderPickupDate', time: 'madeToOrderPickupTime' },
+} as const;
+
+type Pickups = Record<PickupKind, { date?: string; time?: string }>;
+
+interface ManageOrderPanelProps {
+  order: SelfServiceOrder;
+  token: string;
+}
+
+// Lets a customer change quantities and pickup times, or cancel, from their manage link
+export function ManageOrderPanel({ order, token }: ManageOrderPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { schedule } = usePickupSchedule();
+  const { pickupLoad } = useOrder();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [pickups, setPickups] = useState<Pickups>({
+    inStock: { date: order.inStockPickupDate, time: order.inStockPickupTime },
+    madeToOrder: { date: order.madeToOrderPickupDate, time: order.madeToOrderPickupTime },
+  });
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState(false);
+
+  // This order's own bookings don't count against moving it
+  const load = loadWithoutOrder(pickupLoad, order);
+
+  const onSaved = (saved: SelfServiceOrder) => {
+    queryClient.setQueryData(orderApi.selfServiceOrderQueryKey(order.id), saved);
+    setQuantities({});
+    // Quantities and pickup times moved stock and pickup capacity
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+    queryClient.invalidateQueries({ queryKey: MENU_QUERY_KEY });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update your order",
+      description: <span className="whitespace-pre-line">{error.message}</span>,
+      variant: "destructive"
+    });
+  };
+
+  const changeMutation = useMutation({
+    mutationFn: (change: CustomerOrderChange) => orderApi.changeOrderAsCustomer(order.id, token, change),
+    onSuccess: (saved) => {
+      onSaved(saved);
+      toast({ title: "Order updated", description: "We've saved your changes." });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => orderApi.cancelOrderAsCustomer(order.id, token),
+    onSuccess: (saved) => {
+      onSaved(saved);
+      toast({ title: "Order cancelled", description: "We've emailed you a confirmation." });
+    },
+    onError,
+  });
+
+  const quantityOf = (item: OrderItem) => quantities[item.id] ?? item.quantity;
+
+  const pickupQuantity = (kind: PickupKind) =>
+    order[PICKUP_FIELDS[kind].items].reduce((sum, item) => sum + quantityOf(item), 0);
+
+  const dateOptions = (kind: PickupKind) => {
+    const earliest = getEarliestPickupDate(schedule, kind);
+    if (!earliest) return [];
+    return Array.from({ length: RESCHEDULE_DAYS }, (_, offset) => addDaysToKey(earliest, offset))
+      .filter(date => isPickupDateBookable(schedule, load, kind, date, pickupQuantity(kind)));
+  };
+
+  const timeOptions = (kind: PickupKind) => {
+    const { date } = pickups[kind];
+    return date ? getPickupSlots(schedule, load, kind, date).filter(slot => !slot.full).map(slot => slot.time) : [];
+  };
+
+  const handleDateChange = (kind: PickupKind, date: string) => {
+    const times = getPickupSlots(schedule, load, kind, date).filter(slot => !slot.full).map(slot => slot.time);
+    setPickups(prev => ({
+      ...prev,
+      [kind]: { date, time: prev[kind].time && times.includes(prev[kind].time!) ? prev[kind].time : undefined },
+    }));
+  };
+
+  const handleSave = () => {
+    const change: CustomerOrderChange = { quantities };
+    (['inStock', 'madeToOrder'] as const).forEach(kind => {
+      const { date, time } = pickups[kind];
+      if (date !== order[PICKUP_FIELDS[kind].date] || time !== order[PICKUP_FIELDS[kind].time]) {
+        change[PICKUP_FIELDS[kind].date] = date;
+        change[PICKUP_FIELDS[kind].time] = time;
+      }
+    });
+    changeMutation.mutate(change);
+  };
+
+  const kinds = (['inStock', 'madeToOrder'] as const).filter(kind => order[PICKUP_FIELDS[kind].items].length > 0);
+  const missingTime = kinds.some(kind => pickupQuantity(kind) > 0 && !pickups[kind].time);
+  const isSaving = changeMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-serif text-bakery-brown">Change or Cancel</CardTitle>
+        <CardDescription>
+          Set an item to 0 to remove it. Changes are checked against what's left in stock and the pickup schedule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {kinds.map(kind => (
+          <div key={kind} className="space-y-3">
+            <h3 className="font-semibold text-bakery-brown">{PICKUP_KIND_LABELS[kind]}</h3>
+            {order[PICKUP_FIELDS[kind].items].map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`quantity-${item.id}`}>{item.name}</Label>
+                <Input
+                  id={`quantity-${item.id}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-24"
+                  value={quantityOf(item)}
+                  onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: Math.max(parseInt(e.target.value) || 0, 0) }))}
+                />
+              </div>
+            ))}
+            {pickupQuantity(kind) > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <Select value={pickups[kind].date ?? ''} onValueChange={(date) => handleDateChange(kind, date)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pickup date" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateOptions(kind).map(date => (
+                      <SelectItem key={date} value={date}>{format(fromDateKey(date), 'EEE, MMM d')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={pickups[kind].time ?? ''}
+                  onValueChange={(time) => setPickups(prev => ({ ...prev, [kind]: { ...prev[kind], time } }))}
+                  disabled={!pickups[kind].date}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pickup time" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeOptions(kind).map(time => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-between">
+          <Button variant="outline" className="text-red-600" onClick={() => setIsConfirmingCancel(true)} disabled={isSaving}>
+            Cancel Order
+          </Button>
+          <Button className="bg-bakery-brown hover:bg-bakery-light" onClick={handleSave} disabled={isSaving || missingTime}>
+            {changeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Changes
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={isConfirmingCancel} onOpenChange={setIsConfirmingCancel}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel order {order.id}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This can't be undone online. If you've already paid, we'll refund you.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Order</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={() => cancelMutation.mutate()}>
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
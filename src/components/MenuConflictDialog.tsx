@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { MenuItem } from '@/data/types';
+import type { MenuItemConflict } from '@/contexts/MenuContext';
+import { changedFields, fieldLabel, formatFieldValue, isSameValue, MenuItemField } from '@/lib/menu-diff';
+
+type Side = 'mine' | 'theirs';
+
+interface ConflictChoice {
+  // Used when the item was deleted on one side
+  item: Side;
+  fields: Partial<Record<MenuItemField, Side>>;
+}
+
+// Fields the two sides disagree on, by default taking whichever side actually changed it
+function defaultChoice({ base, mine, theirs }: MenuItemConflict): ConflictChoice {
+  const fields: ConflictChoice['fields'] = {};
+  changedFields(mine, theirs).forEach(field => {
+    const onlyTheyChanged = !!base && !!mine && isSameValue(base[field], mine[field]);
+    fields[field] = onlyTheyChanged ? 'theirs' : 'mine';
+  });
+  return { item: 'mine', fields };
+}
+
+// The item with one field taken from another version of it
+const withFieldFrom = (item: MenuItem, from: MenuItem, field: MenuItemField): MenuItem => ({ ...item, [field]: from[field] });
+
+function resolveConflict({ mine, theirs }: MenuItemConflict, choice: ConflictChoice): MenuItem | null {
+  if (!mine || !theirs) {
+    return choice.item === 'mine' ? mine : theirs;
+  }
+  return Object.entries(choice.fields)
+    .filter(([, side]) => side === 'mine')
+    .reduce((merged, [field]) => withFieldFrom(merged, mine, field as MenuItemField), theirs);
+}
+
+interface MenuConflictDialogProps {
+  conflicts: MenuItemConflict[];
+  onResolve: (resolved: Record<string, MenuItem | null>) => void;
+  onCancel: () => void;
+}
+
+export function MenuConflictDialog({ conflicts, onResolve, onCancel }: MenuConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.id, defaultChoice(conflict)])));
+  }, [conflicts]);
+
+  const setAll = (conflictId: string, side: Side) => {
+    setChoices(prev => {
+      const current = prev[conflictId];
+      const fields = Object.fromEntries(Object.keys(current.fields).map(field => [field, side]));
+      return { ...prev, [conflictId]: { item: side, fields } };
+    });
+  };
+
+  const setField = (conflictId: string, field: MenuItemField, side: Side) => {
+    setChoices(prev => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], fields: { ...prev[conflictId].fields, [field]: side } },
+    }));
+  };
+
+  const handleResolve = () => {
+    onResolve(Object.fromEntries(
+      conflicts.map(conflict => [conflict.id, resolveConflict(conflict, choices[conflict.id] ?? defaultChoice(conflict))])
+    ));
+  };
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Menu changed while you were editing</DialogTitle>
+          <DialogDescription>
+            Someone else saved changes to {conflicts.length === 1 ? 'an item' : 'items'} you edited.
+            Choose which version of each field to keep, then save again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.map(conflict => {
+          const { id, base, mine, theirs } = conflict;
+          const choice = choices[id];
+          if (!choice) return null;
+          const name = (mine ?? theirs ?? base)?.name ?? id;
+
+          return (
+            <div key={id} className="space-y-3 border rounded-md p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="font-semibold">{name}</h3>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={choice.item === 'mine' && Object.values(choice.fields).every(side => side === 'mine') ? 'default' : 'outline'}
+                    onClick={() => setAll(id, 'mine')}
+                  >
+                    Keep mine
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={choice.item === 'theirs' && Object.values(choice.fields).every(side => side === 'theirs') ? 'default' : 'outline'}
+                    onClick={() => setAll(id, 'theirs')}
+                  >
+                    Take server's
+                  </Button>
+                </div>
+              </div>
+
+              {!mine || !theirs ? (
+                <p className="text-sm text-muted-foreground">
+                  {!theirs
+                    ? 'This item was deleted on the server. Keeping yours will add it back with your changes.'
+                    : 'You deleted this item, but it was changed on the server. Keeping yours will delete it.'}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Original</TableHead>
+                      <TableHead>Yours</TableHead>
+                      <TableHead>Server</TableHead>
+                      <TableHead>Keep</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(Object.keys(choice.fields) as MenuItemField[]).map(field => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">{fieldLabel(field)}</TableCell>
+                        <TableCell className="text-muted-foreground">{formatFieldValue(field, base?.[field])}</TableCell>
+                        <TableCell>{formatFieldValue(field, mine[field])}</TableCell>
+                        <TableCell>{formatFieldValue(field, theirs[field])}</TableCell>
+                        <TableCell>
+                          <RadioGroup
+                            className="flex gap-3"
+                            value={choice.fields[field]}
+                            onValueChange={(side: Side) => setField(id, field, side)}
+                          >
+                            <div className="flex items-center gap-1">
+                              <RadioGroupItem value="mine" id={`${id}-${field}-mine`} />
+                              <Label htmlFor={`${id}-${field}-mine`}>Yours</Label>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <RadioGroupItem value="theirs" id={`${id}-${field}-theirs`} />
+                              <Label htmlFor={`${id}-${field}-theirs`}>Server</Label>
+                            </div>
+                          </RadioGroup>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {mine && theirs && Object.values(choice.fields).some(side => side === 'mine')
+                && Object.values(choice.fields).some(side => side === 'theirs') && (
+                <Badge variant="secondary">Merged</Badge>
+              )}
+            </div>
+          );
+        })}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Decide later
+          </Button>
+          <Button onClick={handleResolve}>
+            Save resolved menu
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { FileEdit, Loader2, Undo2, Upload } from 'lucide-react';
+import { useMenu } from '@/contexts/MenuContext';
+import { MenuChangeBadge, MenuFieldChangesTable } from '@/components/MenuFieldChangesTable';
+
+// Unpublished menu edits, with review, publish and discard actions
+export function MenuDraftPanel() {
+  const { pendingChanges, publishChanges, discardChanges, discardItemChange, isLoading } = useMenu();
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isDiscardOpen, setIsDiscardOpen] = useState(false);
+
+  if (pendingChanges.length === 0) return null;
+
+  const handlePublish = async () => {
+    setIsReviewOpen(false);
+    await publishChanges();
+  };
+
+  return (
+    <>
+      <Alert>
+        <FileEdit className="h-4 w-4" />
+        <AlertTitle>
+          {pendingChanges.length} unpublished {pendingChanges.length === 1 ? 'change' : 'changes'}
+        </AlertTitle>
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span>Customers still see the published menu until you publish.</span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setIsReviewOpen(true)}>
+              Review changes
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setIsDiscardOpen(true)} disabled={isLoading}>
+              Discard draft
+            </Button>
+            <Button size="sm" onClick={handlePublish} disabled={isLoading}>
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Publish
+            </Button>
+          </div>
+        </AlertDescription>
+      </Alert>
+
+      <Dialog open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review changes</DialogTitle>
+            <DialogDescription>
+              These changes are published together. Undo any you don't want to keep.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {pendingChanges.map(change => (
+              <div key={change.itemId} className="space-y-2 border rounded-md p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{change.name}</span>
+                    <MenuChangeBadge type={change.type} />
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => discardItemChange(change.itemId)}>
+                    <Undo2 className="mr-2 h-4 w-4" /> Undo
+                  </Button>
+                </div>
+                {change.type === 'changed' && <MenuFieldChangesTable fields={change.fields} />}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReviewOpen(false)}>
+              Keep editing
+            </Button>
+            <Button onClick={handlePublish} disabled={isLoading}>
+              Publish {pendingChanges.length} {pendingChanges.length === 1 ? 'change' : 'changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDiscardOpen} onOpenChange={setIsDiscardOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All unpublished menu changes will be lost. The published menu is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={discardChanges}>Discard</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
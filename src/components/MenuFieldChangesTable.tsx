@@ -0,0 +1,36 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { fieldLabel, formatFieldValue, MenuFieldChange, MenuItemChange } from '@/lib/menu-diff';
+
+const CHANGE_BADGES = {
+  added: { label: 'Added', variant: 'default' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  changed: { label: 'Changed', variant: 'secondary' },
+} as const;
+
+export function MenuChangeBadge({ type }: { type: MenuItemChange['type'] }) {
+  return <Badge variant={CHANGE_BADGES[type].variant}>{CHANGE_BADGES[type].label}</Badge>;
+}
+
+export function MenuFieldChangesTable({ fields }: { fields: MenuFieldChange[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {fields.map(({ field, before, after }) => (
+          <TableRow key={field}>
+            <TableCell className="font-medium">{fieldLabel(field)}</TableCell>
+            <TableCell className="text-muted-foreground">{formatFieldValue(field, before)}</TableCell>
+            <TableCell>{formatFieldValue(field, after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
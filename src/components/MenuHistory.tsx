@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { History, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { MenuChangeBadge, MenuFieldChangesTable } from '@/components/MenuFieldChangesTable';
+import * as menuApi from '@/lib/menu-api';
+import { INVENTORY_QUERY_KEY, MENU_HISTORY_QUERY_KEY, MENU_QUERY_KEY } from '@/lib/menu-api';
+import type { MenuRevisionSummary } from '@/types/menu-publish';
+
+interface RestoreRequest {
+  revision: MenuRevisionSummary;
+  itemId?: string;
+  itemName?: string;
+}
+
+const formatRevisionTime = (createdAt: string) => format(new Date(createdAt), 'MMM d, yyyy h:mm a');
+
+export function MenuHistory() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [pendingRestore, setPendingRestore] = useState<RestoreRequest | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: MENU_HISTORY_QUERY_KEY,
+    queryFn: menuApi.fetchMenuHistory,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: ({ revision, itemId }: RestoreRequest) => menuApi.restoreMenuRevision(revision.id, itemId),
+    onSuccess: (menu, { revision, itemName }) => {
+      queryClient.setQueryData(MENU_QUERY_KEY, menu);
+      queryClient.invalidateQueries({ queryKey: MENU_HISTORY_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: INVENTORY_QUERY_KEY });
+      toast({
+        title: "Menu restored",
+        description: `${itemName ?? 'The menu'} is back to how it was on ${formatRevisionTime(revision.createdAt)}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleConfirmRestore = () => {
+    if (pendingRestore) {
+      restoreMutation.mutate(pendingRestore);
+    }
+    setPendingRestore(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Menu History
+        </CardTitle>
+        <CardDescription>
+          Every saved change to the menu. Restore a whole earlier version, or just one item from it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-muted-foreground">No menu changes have been saved yet.</p>
+        ) : (
+          <Accordion type="single" collapsible>
+            {revisions.map((revision, index) => {
+              // The item as it was before a removal lives in the previous revision
+              const previousRevision = revisions[index + 1];
+              return (
+                <AccordionItem key={revision.id} value={revision.id}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex flex-1 flex-wrap items-center gap-x-4 gap-y-1 text-left pr-4">
+                      <span className="font-medium">{revision.summary}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {revision.author?.name ?? 'Original menu'} · {formatRevisionTime(revision.createdAt)}
+                      </span>
+                      {index === 0 && <Badge variant="outline">Current</Badge>}
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-4">
+                    {index > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={restoreMutation.isPending}
+                        onClick={() => setPendingRestore({ revision })}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" /> Restore this version of the menu
+                      </Button>
+                    )}
+
+                    {revision.changes.map(change => {
+                      const restoreFrom = change.type === 'removed' ? previousRevision : revision;
+                      return (
+                        <div key={change.itemId} className="space-y-2">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{change.name}</span>
+                              <MenuChangeBadge type={change.type} />
+                            </div>
+                            {restoreFrom && (index > 0 || change.type === 'removed') && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={restoreMutation.isPending}
+                                onClick={() => setPendingRestore({ revision: restoreFrom, itemId: change.itemId, itemName: change.name })}
+                              >
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                                {change.type === 'removed' ? 'Bring back' : 'Restore this item'}
+                              </Button>
+                            )}
+                          </div>
+                          {change.type === 'changed' && <MenuFieldChangesTable fields={change.fields} />}
+                        </div>
+                      );
+                    })}
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingRestore} onOpenChange={(open) => !open && setPendingRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Restore {pendingRestore?.itemName ?? 'the whole menu'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRestore?.itemName ?? 'Every item'} will go back to how it was on{' '}
+              {pendingRestore && formatRevisionTime(pendingRestore.revision.createdAt)}. This is saved as a new change,
+              so it can be undone from the history too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRestore}>
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -20,6 +20,9 @@ import { MenuItem } from '@/data/types';
 import { menuItems as initialMenuItems } from '@/data/menu-items';
 import { initialAllergens, categories, dietaryRestrictions } from '@/data/initial-data';
 import { useMenu, useMenuItem } from '@/contexts/MenuContext';
+import { MenuConflictDialog } from '@/components/MenuConflictDialog';
+import { MenuDraftPanel } from '@/components/MenuDraftPanel';
+import { useAuth } from '@/contexts/AuthContext';
 import { debounce } from '@/lib/utils';
 import { validateMenuItem } from '@/lib/validation';
 import { createMenuItem, updateMenuItem } from '@/lib/menu-utils';
@@ -136,8 +139,8 @@ const parseNumberInput = (value: string): number => {
 };
 
 export function MenuManager() {
-  const { 
-    menuItems, 
+  const {
+    draftMenuItems: menuItems,
     addMenuItem, 
     updateMenuItem, 
     deleteMenuItem, 
@@ -147,9 +150,17 @@ export function MenuManager() {
     categories,
     allergens,
     dietaryRestrictions,
-    isGitHubEnabled,
-    gitHubError
+    syncError,
+    hasUnsavedChanges,
+    publishChanges,
+    menuConflicts,
+    resolveMenuConflicts,
+    dismissMenuConflicts
   } = useMenu();
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('menu:edit');
+  const canEditPrices = hasPermission('menu:prices');
+  const canManageItems = hasPermission('menu:manage');
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const [editingCell, setEditingCell] = useState<{id: string, field: 'price' | 'stock'} | null>(null);
   const [editValue, setEditValue] = useState<string>('');
@@ -550,8 +561,8 @@ export function MenuManager() {
                       />
                     ) : (
                       <div 
-                        onClick={() => handleQuickEdit(item.id, 'price', item.price)}
-                        className="cursor-pointer hover:bg-muted p-1 rounded"
+                        onClick={() => canEditPrices && handleQuickEdit(item.id, 'price', item.price)}
+                        className={canEditPrices ? "cursor-pointer hover:bg-muted p-1 rounded" : "p-1"}
                       >
                         ${Number(item.price || 0).toFixed(2)}
                       </div>
@@ -570,8 +581,8 @@ export function MenuManager() {
                       />
                     ) : (
                       <div 
-                        onClick={() => handleQuickEdit(item.id, 'stock', item.stock)}
-                        className="cursor-pointer hover:bg-muted p-1 rounded"
+                        onClick={() => canEdit && handleQuickEdit(item.id, 'stock', item.stock)}
+                        className={canEdit ? "cursor-pointer hover:bg-muted p-1 rounded" : "p-1"}
                       >
                         {item.stock}
                       </div>
@@ -581,6 +592,7 @@ export function MenuManager() {
                   <TableCell>
                     <Switch
                       checked={item.active}
+                      disabled={!canEdit}
                       onCheckedChange={(checked) => {
                         debouncedUpdateItem(item.id, { active: checked });
                       }}
@@ -658,35 +670,39 @@ export function MenuManager() {
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6"
-                        onClick={() => {
-                          setSelectedItemId(item.id);
-                          setIsAddingNew(false);
-                        }}
-                      >
-                        <Pencil className="h-3 w-3" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6 text-destructive"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteItem(item.id);
-                        }}
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => {
+                            setSelectedItemId(item.id);
+                            setIsAddingNew(false);
+                          }}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {canManageItems && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteItem(item.id);
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
               ))}
             </TableBody>
           </Table>
-  ), [menuItems, handleDeleteItem, editingCell, editValue]);
+  ), [menuItems, handleDeleteItem, editingCell, editValue, canEdit, canEditPrices, canManageItems]);
 
   return (
     <div className="space-y-6">
@@ -698,24 +714,23 @@ export function MenuManager() {
         </Alert>
       )}
 
-      {gitHubError && (
+      {syncError && (
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>GitHub Sync Error</AlertTitle>
-          <AlertDescription>{gitHubError}</AlertDescription>
-        </Alert>
-      )}
-
-      {!isGitHubEnabled && (
-        <Alert>
-          <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>GitHub Integration Disabled</AlertTitle>
-          <AlertDescription>
-            Menu items will not be saved to GitHub. Please check your GitHub token configuration.
+          <AlertTitle>Menu Sync Error</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>{syncError}</span>
+            {hasUnsavedChanges && menuConflicts.length === 0 && (
+              <Button size="sm" variant="outline" onClick={publishChanges}>
+                Try publishing again
+              </Button>
+            )}
           </AlertDescription>
         </Alert>
       )}
 
+      <MenuDraftPanel />
+
       {isSaving && (
         <Alert>
           <Loader2 className="h-4 w-4 animate-spin" />
@@ -726,9 +741,11 @@ export function MenuManager() {
 
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Menu Management</h2>
-        <Button onClick={() => setIsAddingNew(true)}>
-          <Plus className="mr-2 h-4 w-4" /> Add New Item
-        </Button>
+        {canManageItems && (
+          <Button onClick={() => setIsAddingNew(true)}>
+            <Plus className="mr-2 h-4 w-4" /> Add New Item
+          </Button>
+        )}
       </div>
 
       <Card>
@@ -814,6 +831,7 @@ export function MenuManager() {
                   step="0.01"
                   value={newItem.price || 0}
                   onChange={(e) => handleNewItemChange('price', e.target.value)}
+                  disabled={!isAddingNew && !canEditPrices}
                 />
               </div>
               <div className="space-y-2">
@@ -868,7 +886,7 @@ export function MenuManager() {
                 type="number"
                 min="1"
                 value={newItem.batchSize || 1}
-                onChange={(e) => handleNewItemChange('batchSize', e.target.value)}
+                onChange={(e) => handleNewItemChange('batchSize', parseInt(e.target.value) || undefined)}
               />
             </div>
 
@@ -879,7 +897,7 @@ export function MenuManager() {
                 type="number"
                 min="1"
                 value={newItem.shelfLife || 1}
-                onChange={(e) => handleNewItemChange('shelfLife', e.target.value)}
+                onChange={(e) => handleNewItemChange('shelfLife', parseInt(e.target.value) || undefined)}
               />
             </div>
 
@@ -1021,6 +1039,12 @@ export function MenuManager() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <MenuConflictDialog
+        conflicts={menuConflicts}
+        onResolve={resolveMenuConflicts}
+        onCancel={dismissMenuConflicts}
+      />
+
       {/* Error Dialog */}
       <AlertDialog 
         open={errorDialog.open} 
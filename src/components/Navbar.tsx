@@ -20,7 +20,7 @@ const Navbar = () => {
   const isActive = (path: string) => location.pathname === path;
 
   return (
-    <nav className="sticky top-0 z-50 bg-white/95 backdrop-blur-sm shadow-sm">
+    <nav className="sticky top-0 z-50 print:hidden bg-white/95 backdrop-blur-sm shadow-sm">
       <div className="container mx-auto px-4 md:px-6 py-3">
         <div className="flex justify-between items-center">
           <Link to="/" className="flex items-center" onClick={closeMenu}>
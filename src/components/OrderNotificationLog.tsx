@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from 'date-fns';
+import * as orderApi from '@/lib/order-api';
+
+// Status emails the customer was sent about one order
+export function OrderNotificationLog({ orderId }: { orderId: string }) {
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: orderApi.orderNotificationsQueryKey(orderId),
+    queryFn: () => orderApi.fetchOrderNotifications(orderId),
+  });
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">Customer Emails</h3>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : notifications.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No status emails sent yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sent</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Delivery</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {notifications.map(notification => (
+              <TableRow key={notification.id}>
+                <TableCell>{format(new Date(notification.sentAt), 'MMM d, h:mm a')}</TableCell>
+                <TableCell className="capitalize">{notification.status}</TableCell>
+                <TableCell>{notification.subject}</TableCell>
+                <TableCell>
+                  {notification.error ? (
+                    <Badge variant="destructive" title={notification.error}>Failed</Badge>
+                  ) : (
+                    <Badge variant="outline">Sent to {notification.to}</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
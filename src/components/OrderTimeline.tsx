@@ -0,0 +1,51 @@
+import { format } from 'date-fns';
+import { CircleDollarSign, Pencil, RefreshCw, ShoppingBag, StickyNote, Undo2, type LucideIcon } from 'lucide-react';
+import type { Order, OrderEvent, OrderEventType } from '@/types/order';
+
+const EVENT_ICONS: Record<OrderEventType, LucideIcon> = {
+  created: ShoppingBag,
+  'status-changed': RefreshCw,
+  'payment-recorded': CircleDollarSign,
+  refunded: Undo2,
+  'note-added': StickyNote,
+  edited: Pencil,
+};
+
+// Orders placed before history was recorded still show when they came in
+const eventsOf = (order: Order): OrderEvent[] => {
+  const history = order.history ?? [];
+  if (history.some(event => event.type === 'created')) return history;
+  return [
+    { at: order.createdAt, actor: { kind: 'customer', name: order.customerName }, type: 'created', summary: 'Order placed' },
+    ...history,
+  ];
+};
+
+// Everything that happened to an order, oldest first
+export function OrderTimeline({ order }: { order: Order }) {
+  return (
+    <div>
+      <h3 className="font-semibold mb-3">History</h3>
+      <ol className="relative border-l border-muted ml-3 space-y-4">
+        {eventsOf(order).map((event, index) => {
+          const Icon = EVENT_ICONS[event.type] ?? Pencil;
+          return (
+            <li key={index} className="ml-6">
+              <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+                <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+              </span>
+              <p className={event.type === 'note-added' ? 'italic' : undefined}>
+                {event.type === 'note-added' ? `“${event.summary}”` : event.summary}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {event.actor.kind === 'customer' ? `${event.actor.name} (customer)` : event.actor.name}
+                {' · '}
+                {format(new Date(event.at), 'MMM d, yyyy h:mm a')}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,498 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Loader2, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_PICKUP_SCHEDULE, describeException, describeOrderDeadline, describePickupWindows, getPickupTimes, PICKUP_KIND_LABELS, WEEKDAY_NAMES } from '@/lib/pickup-schedule';
+import { fromDateKey } from '@/lib/bakery-time';
+import * as scheduleApi from '@/lib/schedule-api';
+import { SCHEDULE_QUERY_KEY } from '@/lib/schedule-api';
+import type { CapacityOverride, PickupKind, PickupRules, PickupSchedule, ScheduleException, Weekday } from '@/types/schedule';
+
+const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+const PICKUP_KINDS: PickupKind[] = ['inStock', 'madeToOrder'];
+
+const emptyException: ScheduleException = { date: '', hours: null, note: '' };
+const emptyOverride: CapacityOverride = { date: '', kind: 'madeToOrder', time: null, capacity: 1 };
+
+// Blank means no limit
+const parseCapacity = (value: string) => (value === '' ? null : Math.max(parseInt(value) || 1, 1));
+
+const sameOverride = (a: CapacityOverride, b: CapacityOverride) =>
+  a.date === b.date && a.kind === b.kind && a.time === b.time;
+
+export function PickupScheduleSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState<PickupSchedule>(DEFAULT_PICKUP_SCHEDULE);
+  const [newException, setNewException] = useState<ScheduleException>(emptyException);
+  const [newOverride, setNewOverride] = useState<CapacityOverride>(emptyOverride);
+
+  const { data: savedSchedule, isLoading } = useQuery({
+    queryKey: SCHEDULE_QUERY_KEY,
+    queryFn: scheduleApi.fetchPickupSchedule,
+  });
+
+  useEffect(() => {
+    if (savedSchedule) setSchedule(savedSchedule);
+  }, [savedSchedule]);
+
+  const saveMutation = useMutation({
+    mutationFn: scheduleApi.updatePickupSchedule,
+    onSuccess: (saved) => {
+      queryClient.setQueryData(SCHEDULE_QUERY_KEY, saved);
+      toast({
+        title: "Pickup schedule saved",
+        description: "The order page now offers the new pickup days and times.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const updateRules = (kind: PickupKind, updates: Partial<PickupRules>) => {
+    setSchedule(prev => ({ ...prev, [kind]: { ...prev[kind], ...updates } }));
+  };
+
+  const toggleDay = (kind: PickupKind, weekday: Weekday, open: boolean) => {
+    const windows = schedule[kind].windows.filter(window => window.weekday !== weekday);
+    if (open) windows.push({ weekday, start: '09:00', end: '17:00' });
+    updateRules(kind, { windows });
+  };
+
+  const updateWindow = (kind: PickupKind, weekday: Weekday, field: 'start' | 'end', value: string) => {
+    updateRules(kind, {
+      windows: schedule[kind].windows.map(window => (window.weekday === weekday ? { ...window, [field]: value } : window)),
+    });
+  };
+
+  const addException = () => {
+    if (schedule.exceptions.some(exception => exception.date === newException.date)) {
+      toast({
+        title: "Date already listed",
+        description: "Remove the existing entry for that day first.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setSchedule(prev => ({
+      ...prev,
+      exceptions: [...prev.exceptions, { ...newException, note: newException.note.trim() }]
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }));
+    setNewException(emptyException);
+  };
+
+  const removeException = (date: string) => {
+    setSchedule(prev => ({ ...prev, exceptions: prev.exceptions.filter(exception => exception.date !== date) }));
+  };
+
+  // Replaces any earlier override for the same day or time
+  const addOverride = () => {
+    setSchedule(prev => ({
+      ...prev,
+      capacityOverrides: [...prev.capacityOverrides.filter(override => !sameOverride(override, newOverride)), newOverride]
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }));
+    setNewOverride(emptyOverride);
+  };
+
+  const removeOverride = (removed: CapacityOverride) => {
+    setSchedule(prev => ({
+      ...prev,
+      capacityOverrides: prev.capacityOverrides.filter(override => !sameOverride(override, removed)),
+    }));
+  };
+
+  // Every regular time on the chosen day, including ones already past
+  const overrideTimes = newOverride.date
+    ? getPickupTimes(schedule, newOverride.kind, newOverride.date, new Date(0))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Pickup Schedule
+        </CardTitle>
+        <CardDescription>
+          The days and times customers can choose on the order page, and when made-to-order items stop taking orders.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading schedule...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl">
+              <div className="space-y-2">
+                <Label htmlFor="slot-minutes">Minutes between pickup times</Label>
+                <Input
+                  id="slot-minutes"
+                  type="number"
+                  min={5}
+                  max={240}
+                  value={schedule.slotMinutes}
+                  onChange={(e) => setSchedule(prev => ({ ...prev, slotMinutes: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Bakery timezone</Label>
+                <Input
+                  id="timezone"
+                  placeholder="America/Detroit"
+                  value={schedule.timezone}
+                  onChange={(e) => setSchedule(prev => ({ ...prev, timezone: e.target.value.trim() }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Pickup times and order deadlines are read on this clock, wherever the customer is.
+                </p>
+              </div>
+            </div>
+
+            {PICKUP_KINDS.map(kind => {
+              const rules = schedule[kind];
+              return (
+                <div key={kind} className="space-y-4">
+                  <div>
+                    <h3 className="font-semibold">{PICKUP_KIND_LABELS[kind]}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {describePickupWindows(rules) || 'No pickup days'}
+                      {rules.orderDeadline && `; orders close ${describeOrderDeadline(rules.orderDeadline)}`}
+                    </p>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Day</TableHead>
+                        <TableHead>Open</TableHead>
+                        <TableHead>From</TableHead>
+                        <TableHead>Until</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {WEEKDAYS.map(weekday => {
+                        const window = rules.windows.find(w => w.weekday === weekday);
+                        return (
+                          <TableRow key={weekday}>
+                            <TableCell className="font-medium">{WEEKDAY_NAMES[weekday]}</TableCell>
+                            <TableCell>
+                              <Switch checked={!!window} onCheckedChange={(open) => toggleDay(kind, weekday, open)} />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="time"
+                                className="w-32"
+                                disabled={!window}
+                                value={window?.start ?? ''}
+                                onChange={(e) => updateWindow(kind, weekday, 'start', e.target.value)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="time"
+                                className="w-32"
+                                disabled={!window}
+                                value={window?.end ?? ''}
+                                onChange={(e) => updateWindow(kind, weekday, 'end', e.target.value)}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor={`${kind}-lead-days`}>Days of notice</Label>
+                      <Input
+                        id={`${kind}-lead-days`}
+                        type="number"
+                        min={0}
+                        max={60}
+                        value={rules.leadDays}
+                        onChange={(e) => updateRules(kind, { leadDays: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 pb-2">
+                      <Switch
+                        id={`${kind}-deadline`}
+                        checked={!!rules.orderDeadline}
+                        onCheckedChange={(on) => updateRules(kind, { orderDeadline: on ? { weekday: 3, time: '18:00' } : null })}
+                      />
+                      <Label htmlFor={`${kind}-deadline`}>Weekly order deadline</Label>
+                    </div>
+                    {rules.orderDeadline && (
+                      <div className="flex gap-2">
+                        <Select
+                          value={String(rules.orderDeadline.weekday)}
+                          onValueChange={(value) => updateRules(kind, {
+                            orderDeadline: { ...rules.orderDeadline!, weekday: Number(value) as Weekday },
+                          })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WEEKDAYS.map(weekday => (
+                              <SelectItem key={weekday} value={String(weekday)}>
+                                {WEEKDAY_NAMES[weekday]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="time"
+                          className="w-32"
+                          value={rules.orderDeadline.time}
+                          onChange={(e) => updateRules(kind, {
+                            orderDeadline: { ...rules.orderDeadline!, time: e.target.value },
+                          })}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={`${kind}-slot-capacity`}>Orders per pickup time</Label>
+                      <Input
+                        id={`${kind}-slot-capacity`}
+                        type="number"
+                        min={1}
+                        placeholder="No limit"
+                        value={rules.slotCapacity ?? ''}
+                        onChange={(e) => updateRules(kind, { slotCapacity: parseCapacity(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`${kind}-daily-capacity`}>Items per day</Label>
+                      <Input
+                        id={`${kind}-daily-capacity`}
+                        type="number"
+                        min={1}
+                        placeholder="No limit"
+                        value={rules.dailyCapacity ?? ''}
+                        onChange={(e) => updateRules(kind, { dailyCapacity: parseCapacity(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-semibold">Closures & special hours</h3>
+                <p className="text-sm text-muted-foreground">
+                  Days the bakery is closed or keeps different hours. Special hours only apply to days that normally have pickup.
+                </p>
+              </div>
+
+              {schedule.exceptions.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Hours</TableHead>
+                      <TableHead>Note</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.exceptions.map(exception => (
+                      <TableRow key={exception.date}>
+                        <TableCell className="font-medium">{format(fromDateKey(exception.date), 'EEE, MMM d, yyyy')}</TableCell>
+                        <TableCell className="capitalize">{describeException(exception)}</TableCell>
+                        <TableCell>{exception.note}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="ghost" onClick={() => removeException(exception.date)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="exception-date">Date</Label>
+                  <Input
+                    id="exception-date"
+                    type="date"
+                    value={newException.date}
+                    onChange={(e) => setNewException(prev => ({ ...prev, date: e.target.value }))}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch
+                    id="exception-closed"
+                    checked={newException.hours === null}
+                    onCheckedChange={(closed) => setNewException(prev => ({ ...prev, hours: closed ? null : { start: '09:00', end: '12:00' } }))}
+                  />
+                  <Label htmlFor="exception-closed">Closed all day</Label>
+                </div>
+                {newException.hours && (
+                  <div className="flex gap-2">
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={newException.hours.start}
+                      onChange={(e) => setNewException(prev => ({ ...prev, hours: { ...prev.hours!, start: e.target.value } }))}
+                    />
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={newException.hours.end}
+                      onChange={(e) => setNewException(prev => ({ ...prev, hours: { ...prev.hours!, end: e.target.value } }))}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2 flex-1 min-w-48">
+                  <Label htmlFor="exception-note">Note</Label>
+                  <Input
+                    id="exception-note"
+                    placeholder="e.g. Thanksgiving"
+                    value={newException.note}
+                    onChange={(e) => setNewException(prev => ({ ...prev, note: e.target.value }))}
+                  />
+                </div>
+                <Button variant="outline" onClick={addException} disabled={!newException.date}>
+                  <Plus className="mr-2 h-4 w-4" /> Add
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-semibold">Capacity overrides</h3>
+                <p className="text-sm text-muted-foreground">
+                  Take more (or fewer) orders at one pickup time, or more items on one day, than the usual limits above.
+                </p>
+              </div>
+
+              {schedule.capacityOverrides.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>For</TableHead>
+                      <TableHead>Pickup time</TableHead>
+                      <TableHead>Capacity</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.capacityOverrides.map(override => (
+                      <TableRow key={`${override.date}-${override.kind}-${override.time}`}>
+                        <TableCell className="font-medium">{format(fromDateKey(override.date), 'EEE, MMM d, yyyy')}</TableCell>
+                        <TableCell>{PICKUP_KIND_LABELS[override.kind]}</TableCell>
+                        <TableCell>{override.time ?? 'Whole day'}</TableCell>
+                        <TableCell>{override.capacity} {override.time ? 'orders' : 'items'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="ghost" onClick={() => removeOverride(override)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="override-date">Date</Label>
+                  <Input
+                    id="override-date"
+                    type="date"
+                    value={newOverride.date}
+                    onChange={(e) => setNewOverride(prev => ({ ...prev, date: e.target.value, time: null }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>For</Label>
+                  <Select
+                    value={newOverride.kind}
+                    onValueChange={(kind: PickupKind) => setNewOverride(prev => ({ ...prev, kind, time: null }))}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PICKUP_KINDS.map(kind => (
+                        <SelectItem key={kind} value={kind}>{PICKUP_KIND_LABELS[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Pickup time</Label>
+                  <Select
+                    value={newOverride.time ?? 'day'}
+                    onValueChange={(time) => setNewOverride(prev => ({ ...prev, time: time === 'day' ? null : time }))}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Whole day</SelectItem>
+                      {overrideTimes.map(time => (
+                        <SelectItem key={time} value={time}>{time}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="override-capacity">{newOverride.time ? 'Orders' : 'Items'}</Label>
+                  <Input
+                    id="override-capacity"
+                    type="number"
+                    min={0}
+                    className="w-28"
+                    value={newOverride.capacity}
+                    onChange={(e) => setNewOverride(prev => ({ ...prev, capacity: Math.max(parseInt(e.target.value) || 0, 0) }))}
+                  />
+                </div>
+                <Button variant="outline" onClick={addOverride} disabled={!newOverride.date}>
+                  <Plus className="mr-2 h-4 w-4" /> Add
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                disabled={!savedSchedule || saveMutation.isPending}
+                onClick={() => savedSchedule && setSchedule(savedSchedule)}
+              >
+                Undo changes
+              </Button>
+              <Button onClick={() => saveMutation.mutate(schedule)} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save schedule
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
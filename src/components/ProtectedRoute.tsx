@@ -1,18 +1,61 @@
-import { Navigate } from 'react-router-dom';
+import { useEffect } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { Permission } from '@/types/auth';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { isAuthenticated } = useAuth();
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const { isAuthenticated, isCheckingSession, checkSession, hasPermission } = useAuth();
+  const location = useLocation();
+
+  // Re-validate the session with the server whenever a protected page is opened
+  useEffect(() => {
+    checkSession();
+  }, [location.pathname, checkSession]);
+
+  if (isCheckingSession) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-bakery-brown" />
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (permission && !hasPermission(permission)) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-bakery-brown">
+              <ShieldAlert className="h-5 w-5" />
+              Access restricted
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">
+              Your account doesn't have access to this page. Ask the owner if you need it.
+            </p>
+            <Button asChild variant="outline">
+              <Link to="/admin">Back to dashboard</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
   }
 
   return <>{children}</>;
 };
 
-export default ProtectedRoute; 
\ No newline at end of file
+export default ProtectedRoute;
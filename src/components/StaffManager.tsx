@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { KeyRound, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { STAFF_ROLES } from '@/lib/permissions';
+import * as staffApi from '@/lib/staff-api';
+import type { NewStaffUser, StaffRole, StaffUser, StaffUserUpdate } from '@/types/auth';
+
+const STAFF_QUERY_KEY = ['staff'];
+
+const emptyNewUser: NewStaffUser = {
+  username: '',
+  name: '',
+  role: 'baker',
+  password: '',
+};
+
+export function StaffManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [newUser, setNewUser] = useState<NewStaffUser>(emptyNewUser);
+  const [passwordResetUser, setPasswordResetUser] = useState<StaffUser | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const { data: staff = [], isLoading } = useQuery({
+    queryKey: STAFF_QUERY_KEY,
+    queryFn: staffApi.fetchStaff,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: staffApi.createStaffUser,
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: STAFF_QUERY_KEY });
+      setIsAddDialogOpen(false);
+      setNewUser(emptyNewUser);
+      toast({
+        title: "Staff member added",
+        description: `${created.name} can now sign in as ${created.username}.`,
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ userId, updates }: { userId: string; updates: StaffUserUpdate }) =>
+      staffApi.updateStaffUser(userId, updates),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: STAFF_QUERY_KEY }),
+    onError,
+  });
+
+  const handleResetPassword = async () => {
+    if (!passwordResetUser) return;
+    try {
+      await updateMutation.mutateAsync({ userId: passwordResetUser.id, updates: { password: newPassword } });
+      toast({
+        title: "Password updated",
+        description: `${passwordResetUser.name} will need to sign in again.`,
+      });
+      setPasswordResetUser(null);
+      setNewPassword('');
+    } catch (error) {
+      // Already reported by the mutation's onError
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Staff Accounts</h2>
+        <Button onClick={() => setIsAddDialogOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" /> Add Staff Member
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Team</CardTitle>
+          <CardDescription>
+            Owners can do everything. Bakers can move orders to preparing or ready and edit the menu, but not prices.
+            Front counter staff can take payments and update orders, but cannot refund or delete them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading staff...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staff.map(member => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">
+                      {member.name}
+                      {member.id === currentUser?.id && (
+                        <Badge variant="outline" className="ml-2">You</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{member.username}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.role}
+                        onValueChange={(role: StaffRole) => updateMutation.mutate({ userId: member.id, updates: { role } })}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STAFF_ROLES.map(role => (
+                            <SelectItem key={role.value} value={role.value}>
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={member.active}
+                        onCheckedChange={(active) => updateMutation.mutate({ userId: member.id, updates: { active } })}
+                      />
+                    </TableCell>
+                    <TableCell>{format(new Date(member.createdAt), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPasswordResetUser(member)}
+                      >
+                        <KeyRound className="mr-2 h-4 w-4" /> Reset password
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Staff Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Staff Member</DialogTitle>
+            <DialogDescription>Create a sign-in for a member of the team.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="staff-name">Name</Label>
+              <Input
+                id="staff-name"
+                value={newUser.name}
+                onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-username">Username</Label>
+              <Input
+                id="staff-username"
+                value={newUser.username}
+                onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={newUser.role}
+                onValueChange={(role: StaffRole) => setNewUser({ ...newUser, role })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLES.map(role => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-password">Temporary password</Label>
+              <Input
+                id="staff-password"
+                type="password"
+                value={newUser.password}
+                onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(newUser)}
+              disabled={createMutation.isPending}
+            >
+              Add Staff Member
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Dialog */}
+      <Dialog open={!!passwordResetUser} onOpenChange={(open) => !open && setPasswordResetUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset password for {passwordResetUser?.name}</DialogTitle>
+            <DialogDescription>They will be signed out of any open sessions.</DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            placeholder="New password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasswordResetUser(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleResetPassword}
+              disabled={newPassword.length < 8 || updateMutation.isPending}
+            >
+              Update Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
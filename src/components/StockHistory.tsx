@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from 'date-fns';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { useToast } from '@/hooks/use-toast';
+import { useStockAdjustment } from '@/hooks/use-stock-adjustment';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import * as menuApi from '@/lib/menu-api';
+import { STOCK_MOVEMENT_LABELS } from '@/lib/inventory';
+import { bakeryDateKey, fromDateKey } from '@/lib/bakery-time';
+import { batchesOf, expiresOn, isExpired, untrackedStock } from '@/lib/stock-batches';
+import type { MenuItem } from '@/data/types';
+
+// Movements staff record by hand; counts go through the stock field as corrections
+const RECORDED_REASONS = ['baked', 'wasted', 'given-away'] as const;
+
+type RecordedReason = typeof RECORDED_REASONS[number];
+
+// Every change to one item's stock, with a form to record the ones orders don't
+export function StockHistory({ item }: { item: MenuItem }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<RecordedReason>('baked');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  // Empty means baked today
+  const [bakedOn, setBakedOn] = useState('');
+  const adjustment = useStockAdjustment();
+  const { schedule } = usePickupSchedule();
+  const today = bakeryDateKey(schedule.timezone);
+  const batches = batchesOf(item);
+  const untracked = untrackedStock(item);
+
+  const { data: ledger, isLoading } = useQuery({
+    queryKey: menuApi.stockLedgerQueryKey(item.id),
+    queryFn: () => menuApi.fetchStockLedger(item.id),
+  });
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const details = { quantity: parseInt(quantity), note: note.trim() || undefined };
+      await adjustment.mutateAsync({
+        itemId: item.id,
+        adjustment: reason === 'baked'
+          ? { reason, ...details, bakedOn: bakedOn || undefined }
+          : { reason, ...details },
+      });
+      setQuantity('');
+      setNote('');
+      setBakedOn('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record stock change",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isOutOfStep = ledger && ledger.ledgerStock !== null && ledger.ledgerStock !== ledger.menuStock;
+
+  return (
+    <div className="space-y-4">
+      {!item.madeToOrder && (
+        <form onSubmit={handleRecord} className="flex flex-wrap items-center gap-2">
+          <Select value={reason} onValueChange={(value) => setReason(value as RecordedReason)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECORDED_REASONS.map(option => (
+                <SelectItem key={option} value={option}>{STOCK_MOVEMENT_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={1}
+            placeholder="Quantity"
+            className="w-28"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+          {reason === 'baked' && (
+            <Input
+              type="date"
+              aria-label="Baked on"
+              className="w-40"
+              max={today}
+              value={bakedOn || today}
+              onChange={(e) => setBakedOn(e.target.value)}
+            />
+          )}
+          <Input
+            placeholder="Note (optional)"
+            className="flex-1 min-w-40"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button type="submit" disabled={adjustment.isPending || !(parseInt(quantity) > 0)}>
+            {adjustment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record
+          </Button>
+        </form>
+      )}
+
+      {isOutOfStep && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The menu has {ledger.menuStock} in stock but the ledger ends at {ledger.ledgerStock}, so stock was
+            changed outside the app. Count what's on the shelf and enter it as the stock to record a correction.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!item.madeToOrder && (batches.length > 0 || untracked > 0) && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">On the shelf</h4>
+          {batches.map(batch => {
+            const expiry = expiresOn(item, batch);
+            return (
+              <div key={batch.bakedOn} className="flex items-center justify-between text-sm">
+                <span>
+                  {batch.quantity} baked {format(fromDateKey(batch.bakedOn), 'MMM d')}
+                  {expiry && <span className="text-muted-foreground">, sell before {format(fromDateKey(expiry), 'MMM d')}</span>}
+                </span>
+                {isExpired(item, batch, today) && <Badge variant="destructive">Expired</Badge>}
+              </div>
+            );
+          })}
+          {untracked > 0 && (
+            <p className="text-sm text-muted-foreground">{untracked} counted before batches were tracked</p>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : !ledger || ledger.movements.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No stock changes recorded yet.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.movements.map(movement => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(movement.at), 'MMM d, h:mm a')}</TableCell>
+                  <TableCell>{STOCK_MOVEMENT_LABELS[movement.reason]}</TableCell>
+                  <TableCell className={`text-right ${movement.quantity < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                  <TableCell>{movement.actor.name}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {movement.orderId ? `Order ${movement.orderId}` : movement.note}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +0,0 @@
-// Environment variables configuration
-export const config = {
-  githubToken: import.meta.env.VITE_GITHUB_TOKEN || '',
-  isGitHubEnabled: !!import.meta.env.VITE_GITHUB_TOKEN
-}; 
\ No newline at end of file
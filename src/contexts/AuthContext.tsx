@@ -1,33 +1,82 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useCallback, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import * as authApi from '@/lib/auth-api';
+import { hasPermission as roleHasPermission } from '@/lib/permissions';
+import type { Permission, StaffUser } from '@/types/auth';
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (password: string) => boolean;
-  logout: () => void;
+  isCheckingSession: boolean;
+  sessionExpiresAt: string | null;
+  user: StaffUser | null;
+  hasPermission: (permission: Permission) => boolean;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  checkSession: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
-// This is your admin password - you should change this to something secure
-const ADMIN_PASSWORD = 'JiBakes12!';
+const SESSION_QUERY_KEY = ['session'];
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const queryClient = useQueryClient();
 
-  const login = (password: string) => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
+  const { data: session = null, isLoading: isCheckingSession, refetch } = useQuery({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: authApi.fetchSession,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+
+  const isAuthenticated = !!session && new Date(session.expiresAt) > new Date();
+  const user = isAuthenticated ? session.user : null;
+
+  const hasPermission = useCallback(
+    (permission: Permission) => roleHasPermission(user?.role, permission),
+    [user?.role]
+  );
+
+  const login = async (username: string, password: string) => {
+    try {
+      const newSession = await authApi.login(username, password);
+      queryClient.setQueryData(SESSION_QUERY_KEY, newSession);
       return true;
+    } catch (error) {
+      return false;
     }
-    return false;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
+  const logout = async () => {
+    try {
+      await authApi.logout();
+    } finally {
+      queryClient.setQueryData(SESSION_QUERY_KEY, null);
+      // Drop any admin data cached under the old session
+      queryClient.removeQueries({ queryKey: ['orders'] });
+      queryClient.removeQueries({ queryKey: ['staff'] });
+    }
   };
 
+  // Ask the server whether the session is still valid
+  const checkSession = useCallback(async () => {
+    const { data } = await refetch();
+    return !!data;
+  }, [refetch]);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated,
+        isCheckingSession,
+        sessionExpiresAt: session?.expiresAt ?? null,
+        user,
+        hasPermission,
+        login,
+        logout,
+        checkSession,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -39,4 +88,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-} 
\ No newline at end of file
+}
@@ -1,14 +1,38 @@
 import { createContext, useContext, useState, ReactNode, useMemo, useCallback, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { MenuItem } from '@/data/types';
 import { menuItems as initialMenuItems } from '@/data/menu-items';
 import { initialAllergens, categories as initialCategories, dietaryRestrictions as initialDietaryRestrictions } from '@/data/initial-data';
-import { createMenuItem, updateMenuItem } from '@/lib/menu-utils';
+import { updateMenuItem as updateMenuItemFields } from '@/lib/menu-utils';
 import { validateMenuItem } from '@/lib/validation';
-import { updateMenuItemsFile, hasGitHubToken } from '@/lib/github';
-import { config } from '@/config/env';
+import { changedFields, MenuItemChange } from '@/lib/menu-diff';
+import {
+  applyDraft,
+  discardDraftItem,
+  draftChanges,
+  draftPublishRequest,
+  emptyDraft,
+  isDraftEmpty,
+  loadDraft,
+  MenuDraft,
+  recordDraftEdits,
+  storeDraft,
+} from '@/lib/menu-draft';
+import { ApiError } from '@/lib/api';
+import * as menuApi from '@/lib/menu-api';
+import { INVENTORY_QUERY_KEY, MENU_HISTORY_QUERY_KEY, MENU_QUERY_KEY } from '@/lib/menu-api';
+import type { MenuConflict, MenuConflictResponse } from '@/types/menu-publish';
+
+// A conflict plus the copy of the item this editor started from
+export interface MenuItemConflict extends MenuConflict {
+  base: MenuItem | null;
+}
 
 interface MenuContextType {
+  // The published menu, as customers see it
   menuItems: MenuItem[];
+  // The published menu with this browser's unpublished draft applied
+  draftMenuItems: MenuItem[];
   addMenuItem: (item: MenuItem) => void;
   updateMenuItem: (id: string, updates: Partial<MenuItem>) => void;
   deleteMenuItem: (id: string) => void;
@@ -18,97 +42,155 @@ interface MenuContextType {
   isLoading: boolean;
   error: string | null;
   setError: (error: string | null) => void;
-  saveChanges: () => Promise<void>;
   hasUnsavedChanges: boolean;
+  pendingChanges: MenuItemChange[];
+  publishChanges: () => Promise<void>;
+  discardChanges: () => void;
+  discardItemChange: (id: string) => void;
   addCategory: (category: string) => void;
   removeCategory: (category: string) => void;
   addAllergen: (allergen: string) => void;
   removeAllergen: (allergen: string) => void;
   addDietaryRestriction: (restriction: string) => void;
   removeDietaryRestriction: (restriction: string) => void;
-  isGitHubEnabled: boolean;
-  gitHubError: string | null;
+  syncError: string | null;
+  menuConflicts: MenuItemConflict[];
+  resolveMenuConflicts: (resolved: Record<string, MenuItem | null>) => Promise<void>;
+  dismissMenuConflicts: () => void;
 }
 
 const MenuContext = createContext<MenuContextType | null>(null);
 
+const isConflictResponse = (data: unknown): data is MenuConflictResponse =>
+  !!data && Array.isArray((data as MenuConflictResponse).conflicts);
+
 export function MenuProvider({ children }: { children: ReactNode }) {
-  const [menuItems, setMenuItems] = useState<MenuItem[]>(initialMenuItems);
+  const [draft, setDraft] = useState<MenuDraft>(loadDraft);
   const [dietaryRestrictions, setDietaryRestrictions] = useState<string[]>([...initialDietaryRestrictions]);
   const [categories, setCategories] = useState<string[]>([...initialCategories]);
   const [allergens, setAllergens] = useState<string[]>([...initialAllergens]);
-  const [isGitHubEnabled, setIsGitHubEnabled] = useState(false);
-  const [gitHubError, setGitHubError] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [menuConflicts, setMenuConflicts] = useState<MenuItemConflict[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
-  // Check if GitHub integration is available
+  const queryClient = useQueryClient();
+
+  // The bundled menu is shown until the server's menu store has loaded
+  const { data: menuItems = initialMenuItems } = useQuery({
+    queryKey: MENU_QUERY_KEY,
+    queryFn: menuApi.fetchMenu,
+  });
+
+  const draftMenuItems = useMemo(() => applyDraft(menuItems, draft), [menuItems, draft]);
+  const pendingChanges = useMemo(() => draftChanges(draft), [draft]);
+  const hasUnsavedChanges = !isDraftEmpty(draft);
+
+  // Drafts survive a refresh
   useEffect(() => {
-    const token = import.meta.env.VITE_GITHUB_TOKEN;
-    const isEnabled = hasGitHubToken();
-    setIsGitHubEnabled(isEnabled);
-    
-    if (!isEnabled) {
-      console.warn('GitHub integration disabled. Please check your token configuration.');
-    }
-  }, []);
+    storeDraft(draft);
+  }, [draft]);
 
-  // Function to update menu items and sync with GitHub
-  const updateMenuItems = useCallback(async (newItems: MenuItem[]) => {
-    setMenuItems(newItems);
-    if (isGitHubEnabled) {
-      try {
-        setIsLoading(true);
-        await updateMenuItemsFile(newItems);
-        setGitHubError(null);
-        setHasUnsavedChanges(false);
-      } catch (error) {
-        console.error('Failed to update menu items on GitHub:', error);
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : 'Failed to update menu items on GitHub';
-        setGitHubError(`${errorMessage}. Please check your GitHub token and repository permissions.`);
-        setHasUnsavedChanges(true);
-      } finally {
-        setIsLoading(false);
+  // Apply an edit to the editor's copy of the whole menu
+  const editDraft = useCallback((edit: (items: MenuItem[]) => MenuItem[]) => {
+    setDraft(prev => recordDraftEdits(prev, menuItems, edit(applyDraft(menuItems, prev))));
+  }, [menuItems]);
+
+  // Publish a draft in one save. The server checks each edited item against the
+  // version it started from and reports conflicts instead of overwriting.
+  const publishDraft = useCallback(async (toPublish: MenuDraft) => {
+    const saved = queryClient.getQueryData<MenuItem[]>(MENU_QUERY_KEY) ?? initialMenuItems;
+    try {
+      setIsLoading(true);
+      const published = await menuApi.publishMenu(draftPublishRequest(saved, toPublish));
+      queryClient.setQueryData(MENU_QUERY_KEY, published);
+      queryClient.invalidateQueries({ queryKey: MENU_HISTORY_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: INVENTORY_QUERY_KEY });
+      setDraft(emptyDraft());
+      setMenuConflicts([]);
+      setSyncError(null);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409 && isConflictResponse(error.data)) {
+        setMenuConflicts(error.data.conflicts.map(conflict => ({
+          ...conflict,
+          base: toPublish.base[conflict.id] ?? null,
+        })));
+        setSyncError(error.message);
+        return;
       }
+
+      console.error('Failed to publish menu changes:', error);
+      setSyncError(error instanceof Error ? error.message : 'Failed to publish menu changes');
+    } finally {
+      setIsLoading(false);
     }
-  }, [isGitHubEnabled]);
+  }, [queryClient]);
 
-  // Memoize handlers
-  const updateMenuItem = useCallback(async (id: string, updates: Partial<MenuItem>) => {
-    const updated = menuItems.map(item => {
-      if (item.id === id) {
-        const newItem = { ...item, ...updates, updatedAt: new Date().toISOString(), version: item.version + 1 };
-        const validation = validateMenuItem(newItem);
-        if (!validation.isValid) {
-          throw new Error(validation.errors.join('\n'));
-        }
-        return newItem;
-      }
-      return item;
+  const publishChanges = useCallback(() => publishDraft(draft), [publishDraft, draft]);
+
+  const discardChanges = useCallback(() => {
+    setDraft(emptyDraft());
+    setMenuConflicts([]);
+    setSyncError(null);
+  }, []);
+
+  const discardItemChange = useCallback((id: string) => {
+    setDraft(prev => discardDraftItem(prev, id));
+  }, []);
+
+  // Publish again with the admin's choice for each conflicting item (null removes it).
+  // The server's copies become the base, so kept or merged items go through as edits.
+  const resolveMenuConflicts = useCallback(async (resolved: Record<string, MenuItem | null>) => {
+    let next = draft;
+    menuConflicts.forEach(({ id, theirs }) => {
+      const choice = resolved[id] ?? null;
+      next = discardDraftItem(next, id);
+      const takesTheirs = choice && theirs ? changedFields(choice, theirs).length === 0 : choice === theirs;
+      if (takesTheirs) return;
+
+      next = {
+        edits: { ...next.edits, [id]: choice && theirs ? { ...choice, version: theirs.version + 1 } : choice },
+        base: theirs ? { ...next.base, [id]: theirs } : next.base,
+      };
     });
-    await updateMenuItems(updated);
-  }, [menuItems, updateMenuItems]);
 
-  const addMenuItem = useCallback(async (item: MenuItem) => {
+    setDraft(next);
+    setMenuConflicts([]);
+    await queryClient.invalidateQueries({ queryKey: MENU_QUERY_KEY });
+    await publishDraft(next);
+  }, [draft, menuConflicts, queryClient, publishDraft]);
+
+  const dismissMenuConflicts = useCallback(() => setMenuConflicts([]), []);
+
+  // Memoize handlers
+  const updateMenuItem = useCallback((id: string, updates: Partial<MenuItem>) => {
+    const item = draftMenuItems.find(menuItem => menuItem.id === id);
+    if (!item) return;
+    const newItem = updateMenuItemFields(item, updates);
+    const validation = validateMenuItem(newItem);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join('\n'));
+    }
+    editDraft(items => items.map(existing => (existing.id === id ? newItem : existing)));
+  }, [draftMenuItems, editDraft]);
+
+  const addMenuItem = useCallback((item: MenuItem) => {
     const validation = validateMenuItem(item);
     if (!validation.isValid) {
       throw new Error(validation.errors.join('\n'));
     }
-    await updateMenuItems([...menuItems, item]);
-  }, [menuItems, updateMenuItems]);
+    editDraft(items => [...items, item]);
+  }, [editDraft]);
 
-  const deleteMenuItem = useCallback(async (id: string) => {
-    await updateMenuItems(menuItems.filter(item => item.id !== id));
-  }, [menuItems, updateMenuItems]);
+  const deleteMenuItem = useCallback((id: string) => {
+    editDraft(items => items.filter(item => item.id !== id));
+  }, [editDraft]);
 
   const addDietaryRestriction = useCallback((restriction: string) => {
     setDietaryRestrictions(prev => {
       if (!prev.includes(restriction)) {
         // Update all menu items to include the new dietary restriction
-        setMenuItems(items => {
+        editDraft(items => {
           const updated = items.map(item => ({
             ...item,
             dietaryInfo: {
@@ -122,13 +204,13 @@ export function MenuProvider({ children }: { children: ReactNode }) {
       }
       return prev;
     });
-  }, []);
+  }, [editDraft]);
 
   const removeDietaryRestriction = useCallback((restriction: string) => {
     setDietaryRestrictions(prev => {
       const updated = prev.filter(r => r !== restriction);
       // Update all menu items to remove the dietary restriction
-      setMenuItems(items => {
+      editDraft(items => {
         const updatedItems = items.map(item => {
           const newDietaryInfo = { ...item.dietaryInfo };
           delete newDietaryInfo[restriction as keyof typeof newDietaryInfo];
@@ -141,7 +223,7 @@ export function MenuProvider({ children }: { children: ReactNode }) {
       });
       return updated;
     });
-  }, []);
+  }, [editDraft]);
 
   const addCategory = useCallback((category: string) => {
     setCategories(prev => {
@@ -160,7 +242,7 @@ export function MenuProvider({ children }: { children: ReactNode }) {
     setAllergens(prev => {
       if (!prev.includes(allergen)) {
         // Update all menu items to include the new allergen
-        setMenuItems(items => {
+        editDraft(items => {
           const updated = items.map(item => ({
             ...item,
             allergens: {
@@ -174,19 +256,16 @@ export function MenuProvider({ children }: { children: ReactNode }) {
       }
       return prev;
     });
-  }, []);
+  }, [editDraft]);
 
   const removeAllergen = useCallback((allergen: string) => {
     setAllergens(prev => prev.filter(a => a !== allergen));
   }, []);
 
-  const getMenuItem = (id: string) => {
-    return menuItems.find(item => item.id === id);
-  };
-
   // Memoize context value
   const contextValue = useMemo(() => ({
     menuItems,
+    draftMenuItems,
     dietaryRestrictions,
     categories,
     allergens,
@@ -199,26 +278,21 @@ export function MenuProvider({ children }: { children: ReactNode }) {
     removeCategory,
     addAllergen,
     removeAllergen,
-    getMenuItem,
-    isGitHubEnabled,
-    gitHubError,
+    syncError,
+    menuConflicts,
+    resolveMenuConflicts,
+    dismissMenuConflicts,
     isLoading,
     error,
     setError,
-    saveChanges: async () => {
-      try {
-        await updateMenuItems(menuItems);
-        setHasUnsavedChanges(false);
-        setError(null);
-      } catch (error) {
-        console.error('Failed to save changes:', error);
-        const errorMessage = error instanceof Error ? error.message : 'Failed to save changes';
-        setError(errorMessage);
-      }
-    },
-    hasUnsavedChanges
+    hasUnsavedChanges,
+    pendingChanges,
+    publishChanges,
+    discardChanges,
+    discardItemChange
   }), [
     menuItems,
+    draftMenuItems,
     dietaryRestrictions,
     categories,
     allergens,
@@ -231,14 +305,18 @@ export function MenuProvider({ children }: { children: ReactNode }) {
     removeCategory,
     addAllergen,
     removeAllergen,
-    getMenuItem,
-    isGitHubEnabled,
-    gitHubError,
+    syncError,
+    menuConflicts,
+    resolveMenuConflicts,
+    dismissMenuConflicts,
     isLoading,
     error,
     setError,
-    updateMenuItems,
-    setHasUnsavedChanges
+    hasUnsavedChanges,
+    pendingChanges,
+    publishChanges,
+    discardChanges,
+    discardItemChange
   ]);
 
   return (
@@ -249,9 +327,10 @@ export function MenuProvider({ children }: { children: ReactNode }) {
 }
 
 // Selector hooks
+// Looks in the draft, for editors
 export function useMenuItem(id: string) {
-  const { menuItems } = useMenu();
-  return useMemo(() => menuItems.find(item => item.id === id), [menuItems, id]);
+  const { draftMenuItems } = useMenu();
+  return useMemo(() => draftMenuItems.find(item => item.id === id), [draftMenuItems, id]);
 }
 
 export function useFilteredMenuItems(category: string, available: boolean = true) {
@@ -1,46 +1,28 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import type { NewOrder, Order, OrderUpdate } from '@/types/order';
+import type { PickupLoad } from '@/types/schedule';
+import * as orderApi from '@/lib/order-api';
+import { MENU_QUERY_KEY } from '@/lib/menu-api';
+import { orderStatusEmails } from '@/email-templates';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { bakeryDateKey } from '@/lib/bakery-time';
 
-// Types
-export interface OrderItem {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-  specialInstructions?: string;
-  customizations?: string[];
-}
-
-export interface Order {
-  id: string;
-  customerName: string;
-  customerEmail: string;
-  customerPhone: string;
-  inStockItems: OrderItem[];
-  madeToOrderItems: OrderItem[];
-  inStockPickupDate?: Date;
-  inStockPickupTime?: string;
-  madeToOrderPickupDate?: Date;
-  madeToOrderPickupTime?: string;
-  status: 'pending' | 'completed' | 'cancelled' | 'preparing' | 'ready';
-  total: number;
-  createdAt: Date;
-  specialInstructions?: string;
-  notes?: string;
-  paymentStatus: 'pending' | 'paid' | 'refunded';
-  paymentMethod?: 'zelle' | 'cash';
-  orderType: 'pickup';
-  estimatedCompletionTime?: Date;
-  actualCompletionTime?: Date;
-  priority: 'normal' | 'high' | 'urgent';
-}
+export type { Order, OrderItem } from '@/types/order';
 
 interface OrderContextType {
   orders: Order[];
-  addOrder: (order: Omit<Order, 'id' | 'createdAt' | 'status' | 'paymentStatus' | 'priority'>) => Promise<void>;
+  pickupLoad: PickupLoad;
+  isLoading: boolean;
+  error: string | null;
+  addOrder: (order: NewOrder) => Promise<Order>;
   updateOrderStatus: (orderId: string, status: Order['status']) => Promise<void>;
   updateOrderNote: (orderId: string, note: string) => Promise<void>;
-  updatePaymentStatus: (orderId: string, paymentMethod: Order['paymentMethod'] | 'refunded') => Promise<void>;
+  updatePaymentStatus: (
+    orderId: string, paymentMethod: Order['paymentMethod'] | 'refunded', also?: Pick<OrderUpdate, 'status' | 'notes'>,
+  ) => Promise<void>;
   deleteOrder: (orderId: string) => Promise<void>;
   getOrder: (orderId: string) => Order | undefined;
   getPendingOrders: () => Order[];
@@ -49,102 +31,100 @@ interface OrderContextType {
 
 const OrderContext = createContext<OrderContextType | undefined>(undefined);
 
+const ORDERS_QUERY_KEY = ['orders'];
+const PICKUP_LOAD_QUERY_KEY = ['orders', 'pickup-load'];
+const EMPTY_PICKUP_LOAD: PickupLoad = { slots: {}, days: {} };
+
 export function OrderProvider({ children }: { children: ReactNode }) {
-  const [orders, setOrders] = useState<Order[]>([]);
+  const queryClient = useQueryClient();
   const { toast } = useToast();
-
-  // Load orders and last order number from localStorage on mount
-  useEffect(() => {
-    const savedOrders = localStorage.getItem('orders');
-    if (savedOrders) {
-      setOrders(JSON.parse(savedOrders));
-    }
-  }, []);
-
-  // Save orders to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('orders', JSON.stringify(orders));
-  }, [orders]);
-
-  const getNextOrderNumber = () => {
-    const savedLastNumber = localStorage.getItem('lastOrderNumber');
-    const lastNumber = savedLastNumber ? parseInt(savedLastNumber, 10) : 0;
-    const nextNumber = lastNumber + 1;
-    localStorage.setItem('lastOrderNumber', nextNumber.toString());
-    return nextNumber;
-  };
-
-  const addOrder = async (orderData: Omit<Order, 'id' | 'createdAt' | 'status' | 'paymentStatus' | 'priority'>) => {
-    const orderNumber = getNextOrderNumber();
-    const newOrder: Order = {
-      ...orderData,
-      id: `ORD-${orderNumber}`,
-      createdAt: new Date(),
-      status: 'pending',
-      paymentStatus: 'pending',
-      priority: 'normal',
-      notes: 'Pending payment'
-    };
-
-    setOrders(prevOrders => [...prevOrders, newOrder]);
+  const { isAuthenticated } = useAuth();
+  const { schedule } = usePickupSchedule();
+
+  // Only staff can list orders; customers only ever create them
+  const { data: orders = [], isLoading, error } = useQuery({
+    queryKey: ORDERS_QUERY_KEY,
+    queryFn: orderApi.fetchOrders,
+    enabled: isAuthenticated,
+  });
+
+  // Anyone placing an order needs to know which pickup times are full
+  const { data: pickupLoad = EMPTY_PICKUP_LOAD } = useQuery({
+    queryKey: PICKUP_LOAD_QUERY_KEY,
+    queryFn: orderApi.fetchPickupLoad,
+  });
+
+  // Also refreshes the pickup load, which shares the key prefix
+  const invalidateOrders = () => queryClient.invalidateQueries({ queryKey: ORDERS_QUERY_KEY });
+  // Placing, cancelling and deleting orders move stock
+  const invalidateStock = () => queryClient.invalidateQueries({ queryKey: MENU_QUERY_KEY });
+
+  // A rejected order can mean our stock or pickup load is out of date
+  const createMutation = useMutation({
+    mutationFn: orderApi.createOrder,
+    onSettled: () => Promise.all([invalidateOrders(), invalidateStock()]),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ orderId, updates }: { orderId: string; updates: OrderUpdate }) =>
+      orderApi.updateOrder(orderId, updates),
+    onSuccess: invalidateOrders,
+    onSettled: invalidateStock,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: orderApi.deleteOrder,
+    onSuccess: invalidateOrders,
+    onSettled: invalidateStock,
+  });
+
+  const addOrder = async (orderData: NewOrder) => {
+    const newOrder = await createMutation.mutateAsync(orderData);
     toast({
       title: "Order received",
-      description: `Order #${orderNumber} has been added to the system.`,
+      description: `Order #${newOrder.id} has been added to the system.`,
     });
+    return newOrder;
   };
 
   const updateOrderStatus = async (orderId: string, status: Order['status']) => {
-    setOrders(prevOrders =>
-      prevOrders.map(order =>
-        order.id === orderId
-          ? {
-              ...order,
-              status,
-              actualCompletionTime: status === 'completed' ? new Date() : order.actualCompletionTime,
-            }
-          : order
-      )
-    );
+    const order = await updateMutation.mutateAsync({ orderId, updates: { status } });
     toast({
       title: "Status updated",
-      description: `Order #${orderId} status changed to ${status}`,
+      description: orderStatusEmails[status]
+        ? `Order #${orderId} status changed to ${status}. ${order.customerName} is being emailed about it.`
+        : `Order #${orderId} status changed to ${status}`,
     });
   };
 
   const updateOrderNote = async (orderId: string, note: string) => {
-    setOrders(prevOrders =>
-      prevOrders.map(order =>
-        order.id === orderId ? { ...order, notes: note } : order
-      )
-    );
+    await updateMutation.mutateAsync({ orderId, updates: { notes: note } });
     toast({
-      title: "Note updated",
-      description: `Note has been updated for order #${orderId}`,
+      title: "Note saved",
+      description: `Note saved to the history of order #${orderId}`,
     });
   };
 
-  const updatePaymentStatus = async (orderId: string, paymentMethod: Order['paymentMethod'] | 'refunded') => {
-    setOrders(prevOrders =>
-      prevOrders.map(order =>
-        order.id === orderId
-          ? {
-              ...order,
-              paymentMethod: paymentMethod === 'refunded' ? order.paymentMethod : paymentMethod,
-              paymentStatus: paymentMethod === 'refunded' ? 'refunded' : 'paid',
-            }
-          : order
-      )
-    );
+  // `also` goes in the same update, so the payment and the status or note it
+  // brings with it are saved together
+  const updatePaymentStatus = async (
+    orderId: string, paymentMethod: Order['paymentMethod'] | 'refunded', also: Pick<OrderUpdate, 'status' | 'notes'> = {},
+  ) => {
+    const updates: OrderUpdate = paymentMethod === 'refunded'
+      ? { ...also, paymentStatus: 'refunded' }
+      : { ...also, paymentStatus: 'paid', paymentMethod };
+    await updateMutation.mutateAsync({ orderId, updates });
+    const statusChange = also.status ? ` and moved to ${also.status}` : '';
     toast({
       title: "Payment updated",
       description: paymentMethod === 'refunded'
-        ? `Order #${orderId} has been refunded`
-        : `Order #${orderId} payment method set to ${paymentMethod}`,
+        ? `Order #${orderId} has been refunded${statusChange}`
+        : `Order #${orderId} payment method set to ${paymentMethod}${statusChange}`,
     });
   };
 
   const deleteOrder = async (orderId: string) => {
-    setOrders(prevOrders => prevOrders.filter(order => order.id !== orderId));
+    await deleteMutation.mutateAsync(orderId);
     toast({
       title: "Order deleted",
       description: `Order #${orderId} has been deleted`,
@@ -160,22 +140,19 @@ export function OrderProvider({ children }: { children: ReactNode }) {
     return orders.filter(order => order.status === 'pending');
   };
 
+  // Placed today by the bakery's calendar, not the viewer's
   const getTodayOrders = () => {
-    const today = new Date();
-    return orders.filter(order => {
-      const orderDate = new Date(order.createdAt);
-      return (
-        orderDate.getDate() === today.getDate() &&
-        orderDate.getMonth() === today.getMonth() &&
-        orderDate.getFullYear() === today.getFullYear()
-      );
-    });
+    const today = bakeryDateKey(schedule.timezone);
+    return orders.filter(order => bakeryDateKey(schedule.timezone, order.createdAt) === today);
   };
 
   return (
     <OrderContext.Provider
       value={{
         orders,
+        pickupLoad,
+        isLoading,
+        error: error ? error.message : null,
         addOrder,
         updateOrderStatus,
         updateOrderNote,
@@ -197,4 +174,4 @@ export function useOrder() {
     throw new Error('useOrder must be used within an OrderProvider');
   }
   return context;
-} 
\ No newline at end of file
+}
@@ -1,3 +1,5 @@
+import type { StockBatch } from '../types/stock';
+
 export interface MenuItem {
   id: string;
   name: string;
@@ -55,4 +57,18 @@ export interface MenuItem {
   }>;
   tags?: string[];
   notes?: string;
-} 
\ No newline at end of file
+  // Set from the inventory page. Thresholds are in units of stock.
+  minimumStock?: number;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+  // What one unit costs to make
+  cost?: number;
+  supplier?: string;
+  // In-stock units by the day they were baked, oldest first. Stock beyond
+  // these batches was counted before batches were tracked and never expires.
+  batches?: StockBatch[];
+}
+
+// Settings the inventory page changes without going through a menu publish.
+// Stock itself changes through the stock ledger.
+export type InventoryUpdate = Partial<Pick<MenuItem, 'minimumStock' | 'reorderPoint' | 'reorderQuantity' | 'cost' | 'supplier'>>; 
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { OrderStatus } from './types/order';
+
 export const orderEmailTemplate = `
 <!DOCTYPE html>
 <html>
@@ -69,6 +71,7 @@ export const orderEmailTemplate = `
         
         <div class="order-details">
             <h2>Order Details</h2>
+            <p><strong>Order Number:</strong> {{order_number}}</p>
             <div class="pickup-section">
                 <h3>In-Stock Items Pickup</h3>
                 <p><strong>Pickup Date:</strong> {{in_stock_pickup_date}}</p>
@@ -248,6 +251,8 @@ export const customerOrderEmailTemplate = `
         
         <div class="order-details">
             <h2>Your Order Details</h2>
+            <p><strong>Order Number:</strong> {{order_number}}</p>
+            <p>Check on your order any time at <a href="{{tracking_link}}">{{tracking_link}}</a></p>
             <div class="items-list">
                 <pre>{{order_details}}</pre>
             </div>
@@ -263,6 +268,12 @@ export const customerOrderEmailTemplate = `
             <p>{{special_instructions}}</p>
         </div>
 
+        <div class="pickup-section">
+            <h3>Payment</h3>
+            <p>Please include your order number <strong>{{order_number}}</strong> in the Zelle memo.</p>
+            <pre>{{payment_instructions}}</pre>
+        </div>
+
         <div class="footer">
             <p>If you have any questions about your order, please contact us at:</p>
             <p>Phone: 248-403-0780</p>
@@ -271,4 +282,108 @@ export const customerOrderEmailTemplate = `
     </div>
 </body>
 </html>
-`; 
\ No newline at end of file
+`; 
+// Subject and wording of the email a customer gets when their order reaches a
+// status; statuses without an entry send nothing. Placeholders as in orderStatusEmailTemplate.
+export const orderStatusEmails: Partial<Record<OrderStatus, { subject: string; heading: string; message: string }>> = {
+  preparing: {
+    subject: 'We are preparing order {{order_number}}',
+    heading: 'Your Order Is in the Oven',
+    message: "Good news! We've started preparing your order. We'll email you again as soon as it's ready for pickup.",
+  },
+  ready: {
+    subject: 'Order {{order_number}} is ready for pickup',
+    heading: 'Ready for Pickup',
+    message: "Your order is ready! Come by at your pickup time and mention your order number.",
+  },
+  completed: {
+    subject: 'Thank you for your order {{order_number}}',
+    heading: 'Thank You',
+    message: "Thanks for picking up your order. We hope you enjoy your treats and can't wait to bake for you again!",
+  },
+  cancelled: {
+    subject: 'Order {{order_number}} has been cancelled',
+    heading: 'Order Cancelled',
+    message: "Your order has been cancelled. If you already paid, we'll refund you. If this is a surprise, please get in touch.",
+  },
+};
+
+export const orderStatusEmailTemplate = `
+<!DOCTYPE html>
+<html>
+<head>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background-color: #8B4513;
+            color: white;
+            padding: 20px;
+            text-align: center;
+            border-radius: 5px 5px 0 0;
+        }
+        .content {
+            background-color: #fff;
+            padding: 20px;
+            border: 1px solid #ddd;
+            border-radius: 0 0 5px 5px;
+        }
+        .pickup-section {
+            margin: 15px 0;
+            padding: 15px;
+            background-color: #f5f5f5;
+            border-radius: 5px;
+        }
+        .pickup-section h3 {
+            color: #8B4513;
+            margin-bottom: 10px;
+        }
+        .footer {
+            margin-top: 20px;
+            padding-top: 20px;
+            border-top: 1px solid #ddd;
+            text-align: center;
+            font-size: 0.9em;
+            color: #666;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>{{heading}}</h1>
+    </div>
+    <div class="content">
+        <p>Dear {{customer_name}},</p>
+
+        <p>{{message}}</p>
+
+        <div class="pickup-section">
+            <h3>Order {{order_number}}</h3>
+            <pre>{{pickup_details}}</pre>
+        </div>
+
+        <p>Check on your order any time at <a href="{{tracking_link}}">{{tracking_link}}</a></p>
+
+        <div class="footer">
+            <p>If you have any questions about your order, please contact us at:</p>
+            <p>Phone: 248-403-0780</p>
+            <p>Email: myjilicioustreats@gmail.com</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Fill in {{placeholders}}; html escapes the values for HTML bodies
+export const renderEmailTemplate = (template: string, params: Record<string, string>, html = false) =>
+  template.replace(/{{(\w+)}}/g, (placeholder, key: string) =>
+    key in params ? (html ? escapeHtml(params[key]) : params[key]) : placeholder);
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchInventory, INVENTORY_QUERY_KEY } from '@/lib/menu-api';
+
+// Menu items with their full stock, batches and reorder settings. Only staff
+// who manage inventory can load it, so pass enabled=false for anyone else.
+export function useInventory(enabled = true) {
+  const { data: inventory, isLoading } = useQuery({
+    queryKey: INVENTORY_QUERY_KEY,
+    queryFn: fetchInventory,
+    enabled,
+  });
+  return { inventory, isLoading };
+}
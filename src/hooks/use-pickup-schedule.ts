@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { DEFAULT_PICKUP_SCHEDULE } from '@/lib/pickup-schedule';
+import { fetchPickupSchedule, SCHEDULE_QUERY_KEY } from '@/lib/schedule-api';
+
+// The saved pickup schedule, or the default one until it has loaded
+export function usePickupSchedule() {
+  const { data: schedule = DEFAULT_PICKUP_SCHEDULE, isLoading } = useQuery({
+    queryKey: SCHEDULE_QUERY_KEY,
+    queryFn: fetchPickupSchedule,
+  });
+  return { schedule, isLoading };
+}
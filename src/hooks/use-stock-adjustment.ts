@@ -0,0 +1,20 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import * as menuApi from '@/lib/menu-api';
+import { INVENTORY_QUERY_KEY, MENU_QUERY_KEY, stockLedgerQueryKey } from '@/lib/menu-api';
+import type { MenuItem } from '@/data/types';
+import type { StockAdjustment } from '@/types/stock';
+
+// Records a stock movement, then shows the new stock everywhere the menu is used
+export function useStockAdjustment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ itemId, adjustment }: { itemId: string; adjustment: StockAdjustment }) =>
+      menuApi.adjustStock(itemId, adjustment),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MenuItem[]>(INVENTORY_QUERY_KEY, items =>
+        items?.map(item => (item.id === updated.id ? updated : item)));
+      queryClient.invalidateQueries({ queryKey: MENU_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: stockLedgerQueryKey(updated.id) });
+    },
+  });
+}
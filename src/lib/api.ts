@@ -0,0 +1,33 @@
+export class ApiError extends Error {
+  // data is the full error body, for endpoints that send more than a message
+  constructor(public status: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Origin of the Express server when the site is hosted apart from it, e.g.
+// https://api.example.com. Empty means same origin (the Vite proxy in development).
+const API_URL = (import.meta.env.VITE_API_URL ?? '').replace(/\/$/, '');
+
+// Thin fetch wrapper for the bakery API
+export async function apiRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_URL}/api${path}`, {
+    credentials: 'include',
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new ApiError(response.status, errorData?.error || `Request failed: ${response.status} ${response.statusText}`, errorData);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return response.json();
+}
@@ -0,0 +1,14 @@
+import type { SessionInfo } from '@/types/auth';
+import { apiRequest } from '@/lib/api';
+
+export const login = (username: string, password: string) =>
+  apiRequest<SessionInfo>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+
+export const logout = () => apiRequest<void>('/auth/logout', { method: 'POST' });
+
+// Resolves to null when there is no valid session
+export const fetchSession = () =>
+  apiRequest<SessionInfo>('/auth/session').catch(() => null);
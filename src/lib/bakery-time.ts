@@ -0,0 +1,83 @@
+// Calendar dates and the bakery's wall clock, independent of the timezone the
+// browser or server runs in. Shared by the UI and the API, so only relative imports here.
+
+// A calendar day as "yyyy-MM-dd"; how pickup dates are stored
+export type DateKey = string;
+
+export const DEFAULT_TIMEZONE = 'America/Detroit';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The calendar day a Date shows in the local timezone, e.g. a day picked in a calendar widget
+export const toDateKey = (date: Date): DateKey =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight of a calendar day, for calendar widgets and date-fns formatting
+export const fromDateKey = (key: DateKey) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const keyToUtc = (key: DateKey) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const addDaysToKey = (key: DateKey, days: number): DateKey => {
+  const date = keyToUtc(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// 0 = Sunday ... 6 = Saturday
+export const weekdayOfKey = (key: DateKey) => keyToUtc(key).getUTCDay();
+
+// Well formed and a real day, so 2025-02-30 is rejected
+export const isDateKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && addDaysToKey(value, 0) === value;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What the clock on the bakery wall reads at `now`
+export interface BakeryClock {
+  date: DateKey;
+  // Minutes after midnight
+  minutes: number;
+}
+
+const clockFormats = new Map<string, Intl.DateTimeFormat>();
+
+export function getBakeryClock(timeZone: string, now: Date | string = new Date()): BakeryClock {
+  let clockFormat = clockFormats.get(timeZone);
+  if (!clockFormat) {
+    clockFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    clockFormats.set(timeZone, clockFormat);
+  }
+  const parts = Object.fromEntries(clockFormat.formatToParts(new Date(now)).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// The bakery's calendar day at an instant, e.g. the day an order was placed
+export const bakeryDateKey = (timeZone: string, instant: Date | string = new Date()) =>
+  getBakeryClock(timeZone, instant).date;
+
+// Whether `clock` has reached `minutes` past midnight on `date`
+export const isAtOrAfter = (clock: BakeryClock, date: DateKey, minutes: number) =>
+  clock.date > date || (clock.date === date && clock.minutes >= minutes);
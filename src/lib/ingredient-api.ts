@@ -0,0 +1,12 @@
+import type { IngredientCatalog } from '@/types/ingredient';
+import { apiRequest } from '@/lib/api';
+
+export const INGREDIENTS_QUERY_KEY = ['ingredients'];
+
+export const fetchIngredientCatalog = () => apiRequest<IngredientCatalog>('/ingredients');
+
+export const updateIngredientCatalog = (catalog: IngredientCatalog) =>
+  apiRequest<IngredientCatalog>('/ingredients', {
+    method: 'PUT',
+    body: JSON.stringify(catalog),
+  });
@@ -0,0 +1,77 @@
+import type { Ingredient, IngredientCatalog, IngredientNeed, IngredientUnit } from '../types/ingredient';
+
+export const INGREDIENT_UNITS: IngredientUnit[] = ['g', 'kg', 'oz', 'lb', 'ml', 'l', 'each'];
+
+// Units of the same kind convert through the first one listed
+const UNIT_KINDS: Record<IngredientUnit, { kind: 'weight' | 'volume' | 'count'; factor: number }> = {
+  g: { kind: 'weight', factor: 1 },
+  kg: { kind: 'weight', factor: 1000 },
+  oz: { kind: 'weight', factor: 28.349523125 },
+  lb: { kind: 'weight', factor: 453.59237 },
+  ml: { kind: 'volume', factor: 1 },
+  l: { kind: 'volume', factor: 1000 },
+  each: { kind: 'count', factor: 1 },
+};
+
+export const unitsCompatible = (a: IngredientUnit, b: IngredientUnit) => UNIT_KINDS[a].kind === UNIT_KINDS[b].kind;
+
+// Units an ingredient bought in `unit` can be measured in for a recipe
+export const compatibleUnits = (unit: IngredientUnit) => INGREDIENT_UNITS.filter(other => unitsCompatible(unit, other));
+
+export function convertQuantity(quantity: number, from: IngredientUnit, to: IngredientUnit): number {
+  if (!unitsCompatible(from, to)) {
+    throw new Error(`Can't convert ${from} to ${to}`);
+  }
+  return (quantity * UNIT_KINDS[from].factor) / UNIT_KINDS[to].factor;
+}
+
+// Enough precision to buy by without showing float noise
+export const formatQuantity = (quantity: number, unit: IngredientUnit) =>
+  `${Number(quantity.toFixed(unit === 'each' ? 0 : 2)).toLocaleString()} ${unit}`;
+
+export interface BuyList {
+  needs: IngredientNeed[];
+  // Menu items planned with no recipe, so not counted
+  missingRecipes: string[];
+}
+
+// Batches of a menu item to bake, as on the production sheet
+export interface PlannedBatches {
+  id: string;
+  name: string;
+  batches: number;
+}
+
+// Batches to bake times each recipe, less what's on hand. Every ingredient
+// a recipe uses is listed, including ones with enough in stock.
+export function buildBuyList(planned: PlannedBatches[], catalog: IngredientCatalog): BuyList {
+  const ingredients = new Map<string, Ingredient>(catalog.ingredients.map(ingredient => [ingredient.id, ingredient]));
+  const needs = new Map<string, { needed: number; usedBy: Set<string> }>();
+  const missingRecipes = new Set<string>();
+
+  planned.forEach(line => {
+    const recipe = catalog.recipes[line.id];
+    if (!recipe?.length) {
+      missingRecipes.add(line.name);
+      return;
+    }
+    recipe.forEach(recipeLine => {
+      const ingredient = ingredients.get(recipeLine.ingredientId);
+      if (!ingredient) return;
+      const need = needs.get(ingredient.id) ?? { needed: 0, usedBy: new Set<string>() };
+      need.needed += convertQuantity(recipeLine.quantity, recipeLine.unit, ingredient.unit) * line.batches;
+      need.usedBy.add(line.name);
+      needs.set(ingredient.id, need);
+    });
+  });
+
+  return {
+    needs: [...needs]
+      .map(([id, { needed, usedBy }]) => {
+        const ingredient = ingredients.get(id)!;
+        return { ingredient, needed, toBuy: Math.max(needed - ingredient.onHand, 0), usedBy: [...usedBy].sort() };
+      })
+      .sort((a, b) => b.toBuy - a.toBuy || a.ingredient.name.localeCompare(b.ingredient.name)),
+    missingRecipes: [...missingRecipes].sort(),
+  };
+}
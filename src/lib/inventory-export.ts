@@ -0,0 +1,54 @@
+import type { MenuItem } from '@/data/types';
+import { minimumStockOf, reorderPointOf, sellableStock, stockStatusOf } from '@/lib/inventory';
+import { csvTable, downloadCsvText } from '@/lib/order-export';
+import { expiryOf } from '@/lib/stock-batches';
+
+// One row per item on the inventory page, for reordering and stocktakes
+export interface InventoryReportRow {
+  item: string;
+  category: string;
+  stock: number | string;
+  expired: number;
+  status: string;
+  minimumStock: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  cost: number;
+  supplier: string;
+  soldThisWeek: number;
+}
+
+const COLUMNS: { key: keyof InventoryReportRow; header: string }[] = [
+  { key: 'item', header: 'Item' },
+  { key: 'category', header: 'Category' },
+  { key: 'stock', header: 'Stock' },
+  { key: 'expired', header: 'Expired' },
+  { key: 'status', header: 'Status' },
+  { key: 'minimumStock', header: 'Minimum Stock' },
+  { key: 'reorderPoint', header: 'Reorder Point' },
+  { key: 'reorderQuantity', header: 'Reorder Quantity' },
+  { key: 'cost', header: 'Cost' },
+  { key: 'supplier', header: 'Supplier' },
+  { key: 'soldThisWeek', header: 'Sold This Week' },
+];
+
+const statusLabel = (item: MenuItem) =>
+  stockStatusOf(item).split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const toInventoryReportRows = (items: MenuItem[], soldThisWeek: Map<string, number>, today: string): InventoryReportRow[] =>
+  items.map(item => ({
+    item: item.name,
+    category: item.category,
+    stock: item.madeToOrder ? '' : sellableStock(item),
+    expired: expiryOf(item, today).expired,
+    status: statusLabel(item),
+    minimumStock: minimumStockOf(item),
+    reorderPoint: reorderPointOf(item),
+    reorderQuantity: item.reorderQuantity ?? 0,
+    cost: item.cost ?? 0,
+    supplier: item.supplier ?? '',
+    soldThisWeek: soldThisWeek.get(item.id) ?? 0,
+  }));
+
+export const downloadInventoryCsv = (rows: InventoryReportRow[], fileName: string) =>
+  downloadCsvText(csvTable(rows, COLUMNS), fileName);
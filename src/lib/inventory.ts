@@ -0,0 +1,45 @@
+import type { MenuItem } from '../data/types';
+import type { Order } from '../types/order';
+import type { StockMovementReason } from '../types/stock';
+
+// Used until an item's thresholds are set on the inventory page
+export const DEFAULT_MINIMUM_STOCK = 5;
+
+export type StockStatus = 'made-to-order' | 'out-of-stock' | 'low-stock' | 'reorder-point' | 'in-stock';
+
+export const minimumStockOf = (item: MenuItem) => item.minimumStock ?? DEFAULT_MINIMUM_STOCK;
+
+// Without its own reorder point an item is due once it's low
+export const reorderPointOf = (item: MenuItem) => item.reorderPoint ?? minimumStockOf(item);
+
+export const isLowStock = (item: MenuItem) => !item.madeToOrder && item.stock < minimumStockOf(item);
+
+export function stockStatusOf(item: MenuItem): StockStatus {
+  if (item.madeToOrder) return 'made-to-order';
+  if (item.stock <= 0) return 'out-of-stock';
+  if (item.stock < minimumStockOf(item)) return 'low-stock';
+  if (item.stock < reorderPointOf(item)) return 'reorder-point';
+  return 'in-stock';
+}
+
+// In-stock units taken by orders placed since `since`, per menu item
+export function unitsSoldSince(orders: Order[], since: Date): Map<string, number> {
+  const sold = new Map<string, number>();
+  orders
+    .filter(order => order.status !== 'cancelled' && new Date(order.createdAt) >= since)
+    .flatMap(order => order.inStockItems)
+    .forEach(item => sold.set(item.id, (sold.get(item.id) ?? 0) + item.quantity));
+  return sold;
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementReason, string> = {
+  baked: 'Baked',
+  sold: 'Sold',
+  returned: 'Returned from order',
+  wasted: 'Wasted',
+  'given-away': 'Given away',
+  correction: 'Correction',
+};
+
+// Stock an item can actually sell: -1 marks it out of stock, and made-to-order items keep none
+export const sellableStock = (item: MenuItem) => (item.madeToOrder ? 0 : Math.max(item.stock, 0));
@@ -0,0 +1,49 @@
+import type { InventoryUpdate, MenuItem } from '@/data/types';
+import type { MenuPublishRequest, MenuRevisionSummary } from '@/types/menu-publish';
+import type { StockAdjustment, StockLedger } from '@/types/stock';
+import { apiRequest } from '@/lib/api';
+
+export const MENU_QUERY_KEY = ['menu'];
+export const MENU_HISTORY_QUERY_KEY = ['menu-history'];
+export const INVENTORY_QUERY_KEY = ['inventory'];
+
+export const stockLedgerQueryKey = (itemId: string) => ['stock-ledger', itemId];
+
+// What customers see: stock that can still be sold, without inventory settings
+export const fetchMenu = () => apiRequest<MenuItem[]>('/menu');
+
+// Every item with its stock, batches and reorder settings, for inventory staff
+export const fetchInventory = () => apiRequest<MenuItem[]>('/menu/inventory');
+
+// Saves the editor's changes to the server's menu store and returns the merged menu
+export const publishMenu = (request: MenuPublishRequest) =>
+  apiRequest<MenuItem[]>('/menu/publish', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+
+export const fetchMenuHistory = () => apiRequest<MenuRevisionSummary[]>('/menu/history');
+
+// Restores the whole menu, or a single item when itemId is given
+export const restoreMenuRevision = (revisionId: string, itemId?: string) =>
+  apiRequest<MenuItem[]>(`/menu/history/${encodeURIComponent(revisionId)}/restore`, {
+    method: 'POST',
+    body: JSON.stringify({ itemId }),
+  });
+
+// Reorder settings, saved straight away rather than through a draft
+export const updateInventory = (itemId: string, updates: InventoryUpdate) =>
+  apiRequest<MenuItem>(`/menu/${encodeURIComponent(itemId)}/inventory`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+
+export const fetchStockLedger = (itemId: string) =>
+  apiRequest<StockLedger>(`/menu/${encodeURIComponent(itemId)}/stock`);
+
+// Records a stock movement and returns the item with its new stock
+export const adjustStock = (itemId: string, adjustment: StockAdjustment) =>
+  apiRequest<MenuItem>(`/menu/${encodeURIComponent(itemId)}/stock`, {
+    method: 'POST',
+    body: JSON.stringify(adjustment),
+  });
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { changedFields, diffMenus } from './menu-diff';
+import { menuItem } from '../test/menu-item';
+
+describe('changedFields', () => {
+  it('ignores bookkeeping fields', () => {
+    const before = menuItem();
+    const after = menuItem({ version: 2, updatedAt: '2026-10-02T12:00:00.000Z' });
+    expect(changedFields(before, after)).toEqual([]);
+  });
+
+  it('lists the fields that changed', () => {
+    expect(changedFields(menuItem(), menuItem({ price: 4, available: false }))).toEqual(['price', 'available']);
+  });
+
+  it('compares nested values regardless of key order', () => {
+    const before = menuItem();
+    const { vegan, ...rest } = before.dietaryInfo;
+    expect(changedFields(before, menuItem({ dietaryInfo: { ...rest, vegan } }))).toEqual([]);
+    expect(changedFields(before, menuItem({ dietaryInfo: { ...before.dietaryInfo, vegan: true } }))).toEqual(['dietaryInfo']);
+  });
+
+  it('counts fields that were added or removed', () => {
+    expect(changedFields(menuItem(), menuItem({ shelfLife: 3 }))).toEqual(['shelfLife']);
+  });
+
+  it('lists every field of an item that only exists on one side', () => {
+    const fields = changedFields(null, menuItem());
+    expect(fields).toContain('name');
+    expect(fields).not.toContain('id');
+  });
+});
+
+describe('diffMenus', () => {
+  it('reports added, removed and changed items', () => {
+    const kept = menuItem({ id: 'bread', name: 'Sourdough' });
+    const changes = diffMenus(
+      [menuItem(), kept, menuItem({ id: 'scone', name: 'Scone' })],
+      [menuItem({ price: 4 }), kept, menuItem({ id: 'pie', name: 'Apple Pie' })],
+    );
+    expect(changes.map(({ itemId, type }) => [itemId, type])).toEqual([
+      ['cookie', 'changed'],
+      ['pie', 'added'],
+      ['scone', 'removed'],
+    ]);
+    expect(changes[0].fields).toEqual([{ field: 'price', before: 3.5, after: 4 }]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { MenuItem } from '../data/types';
+import type { StockBatch } from '../types/stock';
+
+// Bookkeeping fields that are not part of an edit
+type MetaField = 'id' | 'createdAt' | 'updatedAt' | 'version';
+export type MenuItemField = Exclude<keyof MenuItem, MetaField>;
+
+const META_FIELDS: string[] = ['id', 'createdAt', 'updatedAt', 'version'];
+
+const FIELD_LABELS: Partial<Record<MenuItemField, string>> = {
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  price: 'Price',
+  image: 'Image',
+  dietaryInfo: 'Dietary info',
+  allergens: 'Allergens',
+  available: 'Available',
+  stock: 'Stock',
+  madeToOrder: 'Made to order',
+  isSpecial: 'Special',
+  bestSeller: 'Best seller',
+  seasonal: 'Seasonal',
+  active: 'Active',
+  minimumOrderQuantity: 'Minimum order',
+  maximumOrderQuantity: 'Maximum order',
+  batchSize: 'Batch size',
+  shelfLife: 'Shelf life (days)',
+  storageInstructions: 'Storage instructions',
+  minimumStock: 'Minimum stock',
+  reorderPoint: 'Reorder point',
+  reorderQuantity: 'Reorder quantity',
+  cost: 'Cost',
+  supplier: 'Supplier',
+  batches: 'Batches',
+};
+
+export const fieldLabel = (field: MenuItemField) => FIELD_LABELS[field] ?? field;
+
+// Structural equality that ignores object key order
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length
+    && aKeys.every(key => isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+// Fields whose values differ between two versions of an item (either may be missing)
+export function changedFields(before?: MenuItem | null, after?: MenuItem | null): MenuItemField[] {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return [...keys]
+    .filter(key => !META_FIELDS.includes(key))
+    .filter(key => !isSameValue(before?.[key as MenuItemField], after?.[key as MenuItemField])) as MenuItemField[];
+}
+
+export function formatFieldValue(field: MenuItemField, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if ((field === 'price' || field === 'cost') && typeof value === 'number') return `$${value.toFixed(2)}`;
+  if (field === 'batches' && Array.isArray(value)) {
+    return value.length ? (value as StockBatch[]).map(batch => `${batch.quantity} baked ${batch.bakedOn}`).join(', ') : '—';
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length ? value.map(v => (typeof v === 'string' ? v : JSON.stringify(v))).join(', ') : '—';
+  if (typeof value === 'object') {
+    // Flag maps such as allergens: list the ones that are set
+    const set = Object.entries(value).filter(([, flag]) => flag === true).map(([key]) => key);
+    return set.length ? set.join(', ') : 'None';
+  }
+  return String(value);
+}
+
+export interface MenuFieldChange {
+  field: MenuItemField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface MenuItemChange {
+  itemId: string;
+  name: string;
+  type: 'added' | 'removed' | 'changed';
+  fields: MenuFieldChange[];
+}
+
+// Item-by-item differences between two versions of the whole menu
+export function diffMenus(before: MenuItem[], after: MenuItem[]): MenuItemChange[] {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+  const changes: MenuItemChange[] = [];
+
+  after.forEach(item => {
+    const previous = beforeById.get(item.id);
+    const fields = changedFields(previous, item).map(field => ({
+      field,
+      before: previous?.[field],
+      after: item[field],
+    }));
+    if (!previous || fields.length > 0) {
+      changes.push({ itemId: item.id, name: item.name, type: previous ? 'changed' : 'added', fields });
+    }
+  });
+  before.filter(item => !afterIds.has(item.id)).forEach(item => {
+    changes.push({ itemId: item.id, name: item.name, type: 'removed', fields: [] });
+  });
+
+  return changes;
+}
+
+// One-line description of a set of changes, e.g. for commit messages
+export function summarizeMenuChanges(changes: MenuItemChange[]): string {
+  if (changes.length === 0) return 'No changes';
+  const described = changes.slice(0, 3).map(change => {
+    if (change.type !== 'changed') return `${change.type === 'added' ? 'Add' : 'Remove'} ${change.name}`;
+    return `Update ${change.name} (${change.fields.map(({ field }) => fieldLabel(field).toLowerCase()).join(', ')})`;
+  });
+  const more = changes.length > 3 ? ` and ${changes.length - 3} more` : '';
+  return `${described.join('; ')}${more}`;
+}
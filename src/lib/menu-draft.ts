@@ -0,0 +1,112 @@
+import { MenuItem } from '@/data/types';
+import { changedFields, diffMenus, MenuItemChange } from '@/lib/menu-diff';
+import type { MenuPublishRequest } from '@/types/menu-publish';
+
+// Unpublished menu edits, kept as a change set on top of the saved menu so
+// that other people's changes to untouched items keep showing through
+export interface MenuDraft {
+  // Edited copies by item id; null marks a deletion
+  edits: Record<string, MenuItem | null>;
+  // The saved copy each edit started from; missing for new items
+  base: Record<string, MenuItem>;
+}
+
+const DRAFT_STORAGE_KEY = 'jt-menu-draft';
+
+export const emptyDraft = (): MenuDraft => ({ edits: {}, base: {} });
+
+export const isDraftEmpty = (draft: MenuDraft) => Object.keys(draft.edits).length === 0;
+
+export function loadDraft(): MenuDraft {
+  try {
+    const stored = localStorage.getItem(DRAFT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : emptyDraft();
+  } catch (error) {
+    console.error('Failed to load menu draft:', error);
+    return emptyDraft();
+  }
+}
+
+export function storeDraft(draft: MenuDraft) {
+  if (isDraftEmpty(draft)) {
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+  } else {
+    localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  }
+}
+
+// The menu as the editor sees it: saved items with the draft applied
+export function applyDraft(saved: MenuItem[], draft: MenuDraft): MenuItem[] {
+  const items = saved
+    .filter(item => draft.edits[item.id] !== null)
+    .map(item => draft.edits[item.id] ?? item);
+  const savedIds = new Set(saved.map(item => item.id));
+  Object.values(draft.edits).forEach(item => {
+    if (item && !savedIds.has(item.id)) items.push(item);
+  });
+  return items;
+}
+
+// Record the difference between the editor's menu and `next` in the draft.
+// Edited items get one version past the copy they started from, and edits that
+// end up back where they started drop out of the draft.
+export function recordDraftEdits(draft: MenuDraft, saved: MenuItem[], next: MenuItem[]): MenuDraft {
+  const current = applyDraft(saved, draft);
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const savedById = new Map(saved.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const edits = { ...draft.edits };
+  const base = { ...draft.base };
+
+  const startFrom = (id: string) => {
+    const savedItem = savedById.get(id);
+    if (!base[id] && savedItem) base[id] = savedItem;
+    return base[id];
+  };
+
+  next.forEach(item => {
+    const existing = currentById.get(item.id);
+    if (existing && changedFields(existing, item).length === 0) return;
+    const original = startFrom(item.id);
+    edits[item.id] = original ? { ...item, version: original.version + 1 } : item;
+  });
+  current.filter(item => !nextIds.has(item.id)).forEach(item => {
+    if (startFrom(item.id)) {
+      edits[item.id] = null;
+    } else {
+      delete edits[item.id];
+    }
+  });
+
+  Object.keys(edits).forEach(id => {
+    const edited = edits[id];
+    if (edited && base[id] && changedFields(base[id], edited).length === 0) {
+      delete edits[id];
+      delete base[id];
+    }
+  });
+
+  return { edits, base };
+}
+
+// Drop one item's edits, going back to the saved copy
+export function discardDraftItem(draft: MenuDraft, id: string): MenuDraft {
+  const { [id]: _edit, ...edits } = draft.edits;
+  const { [id]: _base, ...base } = draft.base;
+  return { edits, base };
+}
+
+export function draftChanges(draft: MenuDraft): MenuItemChange[] {
+  const edited = Object.values(draft.edits).filter((item): item is MenuItem => !!item);
+  return diffMenus(Object.values(draft.base), edited);
+}
+
+export function draftPublishRequest(saved: MenuItem[], draft: MenuDraft): MenuPublishRequest {
+  return {
+    items: applyDraft(saved, draft),
+    baseVersions: Object.fromEntries(
+      [...saved, ...Object.values(draft.base)].map(item => [item.id, draft.base[item.id]?.version ?? item.version])
+    ),
+    baseStock: Object.fromEntries(Object.values(draft.base).map(item => [item.id, item.stock])),
+  };
+}
@@ -0,0 +1,60 @@
+import type {
+  CustomerOrderChange, CustomerOrderView, NewOrder, Order, OrderNotification, OrderUpdate, SelfServiceOrder,
+} from '@/types/order';
+import type { PickupLoad } from '@/types/schedule';
+import { apiRequest } from '@/lib/api';
+
+export const fetchOrders = () => apiRequest<Order[]>('/orders');
+
+export const fetchPickupLoad = () => apiRequest<PickupLoad>('/orders/pickup-load');
+
+export const fetchOrder = (orderId: string) =>
+  apiRequest<Order>(`/orders/${encodeURIComponent(orderId)}`);
+
+// Under the orders key, so it refreshes whenever the orders do
+export const orderNotificationsQueryKey = (orderId: string) => ['orders', orderId, 'notifications'];
+
+export const fetchOrderNotifications = (orderId: string) =>
+  apiRequest<OrderNotification[]>(`/orders/${encodeURIComponent(orderId)}/notifications`);
+
+// For customers: contact is the email or phone number the order was placed with
+export const lookupOrder = (orderId: string, contact: string) =>
+  apiRequest<CustomerOrderView>(`/orders/${encodeURIComponent(orderId)}/lookup`, {
+    method: 'POST',
+    body: JSON.stringify({ contact }),
+  });
+
+export const selfServiceOrderQueryKey = (orderId: string) => ['order-manage', orderId];
+
+// For customers holding the manage link from their confirmation email
+export const fetchSelfServiceOrder = (orderId: string, token: string) =>
+  apiRequest<SelfServiceOrder>(`/orders/${encodeURIComponent(orderId)}/manage?token=${encodeURIComponent(token)}`);
+
+export const changeOrderAsCustomer = (orderId: string, token: string, change: CustomerOrderChange) =>
+  apiRequest<SelfServiceOrder>(`/orders/${encodeURIComponent(orderId)}/manage`, {
+    method: 'PATCH',
+    body: JSON.stringify({ token, ...change }),
+  });
+
+export const cancelOrderAsCustomer = (orderId: string, token: string) =>
+  apiRequest<SelfServiceOrder>(`/orders/${encodeURIComponent(orderId)}/manage/cancel`, {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  });
+
+export const createOrder = (order: NewOrder) =>
+  apiRequest<Order>('/orders', {
+    method: 'POST',
+    body: JSON.stringify(order),
+  });
+
+export const updateOrder = (orderId: string, updates: OrderUpdate) =>
+  apiRequest<Order>(`/orders/${encodeURIComponent(orderId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+
+export const deleteOrder = (orderId: string) =>
+  apiRequest<void>(`/orders/${encodeURIComponent(orderId)}`, {
+    method: 'DELETE',
+  });
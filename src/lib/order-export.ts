@@ -0,0 +1,194 @@
+import type { Order, OrderItem } from '@/types/order';
+import { bakeryDateKey } from '@/lib/bakery-time';
+import { PICKUP_KIND_LABELS } from '@/lib/pickup-schedule';
+
+// One row per order line, for the bookkeeper to reconcile against Zelle and cash
+export interface OrderLineRow {
+  orderNumber: string;
+  placed: string;
+  customer: string;
+  email: string;
+  phone: string;
+  pickup: string;
+  pickupDate: string;
+  pickupTime: string;
+  item: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  status: Order['status'];
+  paymentStatus: Order['paymentStatus'];
+  paymentMethod: string;
+}
+
+// Takings per pickup day. Cancelled orders only count towards refunded.
+export interface DailySummaryRow {
+  date: string;
+  orders: number;
+  items: number;
+  total: number;
+  zelle: number;
+  cash: number;
+  unpaid: number;
+  refunded: number;
+}
+
+const COLUMNS: { key: keyof OrderLineRow; header: string; width: number }[] = [
+  { key: 'orderNumber', header: 'Order', width: 20 },
+  { key: 'placed', header: 'Placed', width: 12 },
+  { key: 'customer', header: 'Customer', width: 20 },
+  { key: 'email', header: 'Email', width: 26 },
+  { key: 'phone', header: 'Phone', width: 14 },
+  { key: 'pickup', header: 'Pickup', width: 20 },
+  { key: 'pickupDate', header: 'Pickup Date', width: 12 },
+  { key: 'pickupTime', header: 'Pickup Time', width: 11 },
+  { key: 'item', header: 'Item', width: 30 },
+  { key: 'quantity', header: 'Quantity', width: 9 },
+  { key: 'unitPrice', header: 'Unit Price', width: 10 },
+  { key: 'lineTotal', header: 'Line Total', width: 10 },
+  { key: 'status', header: 'Status', width: 11 },
+  { key: 'paymentStatus', header: 'Payment', width: 10 },
+  { key: 'paymentMethod', header: 'Paid Via', width: 9 },
+];
+
+const SUMMARY_COLUMNS: { key: keyof DailySummaryRow; header: string; width: number }[] = [
+  { key: 'date', header: 'Pickup Date', width: 12 },
+  { key: 'orders', header: 'Orders', width: 8 },
+  { key: 'items', header: 'Items', width: 8 },
+  { key: 'total', header: 'Total', width: 10 },
+  { key: 'zelle', header: 'Zelle', width: 10 },
+  { key: 'cash', header: 'Cash', width: 10 },
+  { key: 'unpaid', header: 'Unpaid', width: 10 },
+  { key: 'refunded', header: 'Refunded', width: 10 },
+];
+
+const MONEY_COLUMNS = new Set<string>(['unitPrice', 'lineTotal', 'total', 'zelle', 'cash', 'unpaid', 'refunded']);
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function toOrderLineRows(orders: Order[], timeZone: string): OrderLineRow[] {
+  return orders.flatMap(order => {
+    const lines = (kind: 'inStock' | 'madeToOrder', items: OrderItem[], date?: string, time?: string) =>
+      items.map(item => ({
+        orderNumber: order.id,
+        placed: bakeryDateKey(timeZone, order.createdAt),
+        customer: order.customerName,
+        email: order.customerEmail,
+        phone: order.customerPhone,
+        pickup: PICKUP_KIND_LABELS[kind],
+        pickupDate: date ?? '',
+        pickupTime: time ?? '',
+        item: item.name,
+        quantity: item.quantity,
+        unitPrice: item.price,
+        lineTotal: roundCents(item.price * item.quantity),
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+        paymentMethod: order.paymentStatus === 'pending' ? '' : order.paymentMethod ?? '',
+      }));
+    return [
+      ...lines('inStock', order.inStockItems, order.inStockPickupDate, order.inStockPickupTime),
+      ...lines('madeToOrder', order.madeToOrderItems, order.madeToOrderPickupDate, order.madeToOrderPickupTime),
+    ];
+  });
+}
+
+// An order picked up over two days counts towards each day with its lines for that day
+export function summarizeByDay(rows: OrderLineRow[]): DailySummaryRow[] {
+  const days = new Map<string, DailySummaryRow & { orderNumbers: Set<string> }>();
+  rows.forEach(row => {
+    const date = row.pickupDate || 'No date';
+    let day = days.get(date);
+    if (!day) {
+      day = { date, orders: 0, items: 0, total: 0, zelle: 0, cash: 0, unpaid: 0, refunded: 0, orderNumbers: new Set() };
+      days.set(date, day);
+    }
+    if (row.paymentStatus === 'refunded') {
+      day.refunded += row.lineTotal;
+      return;
+    }
+    if (row.status === 'cancelled') return;
+    day.orderNumbers.add(row.orderNumber);
+    day.items += row.quantity;
+    day.total += row.lineTotal;
+    if (row.paymentStatus === 'pending') {
+      day.unpaid += row.lineTotal;
+    } else if (row.paymentMethod === 'cash') {
+      day.cash += row.lineTotal;
+    } else {
+      day.zelle += row.lineTotal;
+    }
+  });
+  return [...days.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(({ orderNumbers, ...day }) => ({
+      ...day,
+      orders: orderNumbers.size,
+      total: roundCents(day.total),
+      zelle: roundCents(day.zelle),
+      cash: roundCents(day.cash),
+      unpaid: roundCents(day.unpaid),
+      refunded: roundCents(day.refunded),
+    }));
+}
+
+// Text starting like a formula is prefixed with ' so spreadsheets show it
+// rather than run it. Numbers are left alone so negative amounts stay numbers.
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A header line, then one line per row. The inventory report uses it too.
+export function csvTable<Row>(rows: Row[], columns: { key: keyof Row; header: string }[]): string {
+  return [
+    columns.map(column => column.header),
+    ...rows.map(row => columns.map(column => row[column.key] as string | number)),
+  ].map(cells => cells.map(csvCell).join(',')).join('\r\n');
+}
+
+export const toCsv = (rows: OrderLineRow[]) => csvTable(rows, COLUMNS);
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The BOM makes Excel read the file as UTF-8
+export const downloadCsvText = (csv: string, fileName: string) =>
+  download(new Blob(['﻿', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+
+export const downloadCsv = (rows: OrderLineRow[], fileName: string) => downloadCsvText(toCsv(rows), fileName);
+
+function sheetData<Row>(rows: Row[], columns: { key: keyof Row; header: string }[]) {
+  return [
+    columns.map(column => ({ value: column.header, fontWeight: 'bold' as const })),
+    ...rows.map(row => columns.map(column => {
+      const value = row[column.key] as string | number;
+      return MONEY_COLUMNS.has(String(column.key)) ? { value, type: Number, format: '#,##0.00' } : { value };
+    })),
+  ];
+}
+
+// Loaded on demand, it's only needed when someone exports
+export async function downloadXlsx(rows: OrderLineRow[], fileName: string) {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  await writeXlsxFile([
+    {
+      sheet: 'Order Lines',
+      data: sheetData(rows, COLUMNS),
+      columns: COLUMNS.map(({ width }) => ({ width })),
+      stickyRowsCount: 1,
+    },
+    {
+      sheet: 'Daily Summary',
+      data: sheetData(summarizeByDay(rows), SUMMARY_COLUMNS),
+      columns: SUMMARY_COLUMNS.map(({ width }) => ({ width })),
+      stickyRowsCount: 1,
+    },
+  ]).toFile(fileName);
+}
@@ -0,0 +1,23 @@
+import type { Order } from '../types/order';
+import type { PickupSchedule } from '../types/schedule';
+import { isPickupDateAvailable } from './pickup-schedule';
+
+// Shared by the tracking page and the API, so only relative imports here.
+
+// Customers may change or cancel an order online until we start on it, and no
+// later than a new order could still be booked for the same pickup days, i.e.
+// before the made-to-order deadline and the in-stock notice period.
+export function selfServiceLockedReason(schedule: PickupSchedule, order: Order, now = new Date()): string | null {
+  if (order.status === 'cancelled') return 'This order has been cancelled.';
+  if (order.status !== 'pending') return "We've already started on this order, so it can no longer be changed online.";
+  const pickups = [
+    order.inStockItems.length > 0 && { kind: 'inStock' as const, date: order.inStockPickupDate },
+    order.madeToOrderItems.length > 0 && { kind: 'madeToOrder' as const, date: order.madeToOrderPickupDate },
+  ];
+  const pastDeadline = pickups.some(pickup => pickup && pickup.date && !isPickupDateAvailable(schedule, pickup.kind, pickup.date, now));
+  return pastDeadline ? 'The deadline for changing this order online has passed.' : null;
+}
+
+// Where a customer checks on their order; with the manage token they can also change it
+export const customerOrderPath = (order: Pick<Order, 'id' | 'manageToken'>) =>
+  `/order/${encodeURIComponent(order.id)}${order.manageToken ? `?token=${encodeURIComponent(order.manageToken)}` : ''}`;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { statusTransitionProblem } from './order-status';
+
+describe('statusTransitionProblem', () => {
+  it('allows the next step in the kitchen', () => {
+    expect(statusTransitionProblem({ status: 'pending', paymentStatus: 'pending' }, 'preparing')).toBeNull();
+    expect(statusTransitionProblem({ status: 'preparing', paymentStatus: 'pending' }, 'ready')).toBeNull();
+  });
+
+  it('rejects skipping steps', () => {
+    expect(statusTransitionProblem({ status: 'pending', paymentStatus: 'paid' }, 'ready'))
+      .toBe('A pending order can only be moved to preparing or cancelled');
+  });
+
+  it('needs a payment before completing', () => {
+    expect(statusTransitionProblem({ status: 'ready', paymentStatus: 'pending' }, 'completed'))
+      .toBe('Record the payment before completing the order');
+    expect(statusTransitionProblem({ status: 'ready', paymentStatus: 'paid' }, 'completed')).toBeNull();
+  });
+
+  it('allows cancelling until completed, and reopening only as pending', () => {
+    expect(statusTransitionProblem({ status: 'ready', paymentStatus: 'paid' }, 'cancelled')).toBeNull();
+    expect(statusTransitionProblem({ status: 'completed', paymentStatus: 'paid' }, 'cancelled'))
+      .toBe("A completed order can't change status");
+    expect(statusTransitionProblem({ status: 'cancelled', paymentStatus: 'refunded' }, 'pending')).toBeNull();
+    expect(statusTransitionProblem({ status: 'cancelled', paymentStatus: 'refunded' }, 'preparing'))
+      .toBe('A cancelled order can only be moved to pending');
+  });
+
+  it('treats keeping the same status as no change', () => {
+    expect(statusTransitionProblem({ status: 'completed', paymentStatus: 'paid' }, 'completed')).toBeNull();
+  });
+});
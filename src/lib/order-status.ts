@@ -0,0 +1,30 @@
+import type { Order, OrderStatus } from '../types/order';
+
+// Shared by the admin UI and the API, so only relative imports here.
+
+// Which statuses an order can move to from each status. Orders go through the
+// kitchen in order; they can be cancelled until they're picked up, and a
+// cancelled order can only be reopened as pending.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: ['pending'],
+};
+
+// Why an order can't move to `to`, or null when it can. Pass the order with any
+// payment change made in the same update already applied.
+export function statusTransitionProblem(order: Pick<Order, 'status' | 'paymentStatus'>, to: OrderStatus): string | null {
+  if (to === order.status) return null;
+  if (!ORDER_STATUS_TRANSITIONS[order.status].includes(to)) {
+    const allowed = ORDER_STATUS_TRANSITIONS[order.status];
+    return allowed.length === 0
+      ? `A ${order.status} order can't change status`
+      : `A ${order.status} order can only be moved to ${allowed.join(' or ')}`;
+  }
+  if (to === 'completed' && order.paymentStatus !== 'paid') {
+    return 'Record the payment before completing the order';
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+import type { OrderStatus } from '../types/order';
+import type { Permission, StaffRole } from '../types/auth';
+
+// Shared by the admin UI and the API, so only relative imports here.
+
+export const STAFF_ROLES: { value: StaffRole; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'baker', label: 'Baker' },
+  { value: 'front-counter', label: 'Front Counter' },
+];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'orders:view', 'orders:status', 'orders:notes', 'orders:delete',
+    'payments:record', 'payments:refund',
+    'menu:edit', 'menu:prices', 'menu:manage',
+    'inventory:manage', 'staff:manage', 'settings:manage',
+  ],
+  'front-counter': [
+    'orders:view', 'orders:status', 'orders:notes',
+    'payments:record',
+    'inventory:manage',
+  ],
+  baker: [
+    'orders:view', 'orders:status', 'orders:notes',
+    'menu:edit',
+    'inventory:manage',
+  ],
+};
+
+// Bakers may only move orders through the kitchen stages
+const ROLE_STATUS_LIMITS: Partial<Record<StaffRole, OrderStatus[]>> = {
+  baker: ['preparing', 'ready'],
+};
+
+export function hasPermission(role: StaffRole | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function canSetOrderStatus(role: StaffRole | undefined, status: OrderStatus): boolean {
+  if (!role || !hasPermission(role, 'orders:status')) return false;
+  const limits = ROLE_STATUS_LIMITS[role];
+  return !limits || limits.includes(status);
+}
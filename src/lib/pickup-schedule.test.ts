@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { PickupSchedule } from '../types/schedule';
+import {
+  computePickupLoad,
+  DEFAULT_PICKUP_SCHEDULE,
+  getEarliestPickupDate,
+  getPickupTimes,
+  isPickupDateAvailable,
+  orderDeadlineFor,
+  pickupBookingProblem,
+  type PickupBooking,
+} from './pickup-schedule';
+
+// Monday 19 October 2026, 10:00 in Detroit
+const monday = new Date('2026-10-19T14:00:00Z');
+
+const schedule = (changes: Partial<PickupSchedule> = {}): PickupSchedule => ({ ...DEFAULT_PICKUP_SCHEDULE, ...changes });
+
+const booking = (time: string, quantity: number): PickupBooking => ({
+  status: 'pending',
+  inStockItems: [{ id: 'cookie', name: 'Cookie', price: 3.5, quantity }],
+  madeToOrderItems: [],
+  inStockPickupDate: '2026-10-20',
+  inStockPickupTime: time,
+});
+
+describe('pickup slots', () => {
+  it('offers every slot in the window, both ends included', () => {
+    const times = getPickupTimes(schedule(), 'inStock', '2026-10-20', monday);
+    expect(times[0]).toBe('9:00 AM');
+    expect(times[times.length - 1]).toBe('5:00 PM');
+    expect(times).toHaveLength(17);
+  });
+
+  it('leaves out times already past today', () => {
+    const times = getPickupTimes(schedule(), 'inStock', '2026-10-19', monday);
+    expect(times[0]).toBe('10:30 AM');
+  });
+
+  it('has no slots on days without a window', () => {
+    expect(getPickupTimes(schedule(), 'inStock', '2026-10-24', monday)).toEqual([]);
+  });
+
+  it('uses special hours in place of the regular window', () => {
+    const special = schedule({ exceptions: [{ date: '2026-10-20', hours: { start: '12:00', end: '13:00' }, note: '' }] });
+    expect(getPickupTimes(special, 'inStock', '2026-10-20', monday)).toEqual(['12:00 PM', '12:30 PM', '1:00 PM']);
+  });
+});
+
+describe('pickup dates', () => {
+  it('needs the lead days before the earliest pickup', () => {
+    expect(isPickupDateAvailable(schedule(), 'inStock', '2026-10-19', monday)).toBe(false);
+    expect(getEarliestPickupDate(schedule(), 'inStock', monday)).toBe('2026-10-20');
+  });
+
+  it("counts days on the bakery's clock", () => {
+    // 02:00 UTC on Tuesday is still Monday evening in Detroit
+    expect(getEarliestPickupDate(schedule(), 'inStock', new Date('2026-10-20T02:00:00Z'))).toBe('2026-10-20');
+  });
+
+  it('skips closed days', () => {
+    const closed = schedule({ exceptions: [{ date: '2026-10-20', hours: null, note: 'Closed' }] });
+    expect(isPickupDateAvailable(closed, 'inStock', '2026-10-20', monday)).toBe(false);
+    expect(getEarliestPickupDate(closed, 'inStock', monday)).toBe('2026-10-21');
+  });
+});
+
+describe('order deadlines', () => {
+  it('closes orders at the last deadline before the pickup day', () => {
+    const deadline = DEFAULT_PICKUP_SCHEDULE.madeToOrder.orderDeadline!;
+    expect(orderDeadlineFor(schedule(), deadline, '2026-10-24')).toEqual({ date: '2026-10-21', minutes: 18 * 60 });
+  });
+
+  it('takes orders until the deadline and not after', () => {
+    expect(isPickupDateAvailable(schedule(), 'madeToOrder', '2026-10-24', new Date('2026-10-21T21:59:00Z'))).toBe(true);
+    expect(isPickupDateAvailable(schedule(), 'madeToOrder', '2026-10-24', new Date('2026-10-21T22:00:00Z'))).toBe(false);
+    expect(getEarliestPickupDate(schedule(), 'madeToOrder', new Date('2026-10-22T14:00:00Z'))).toBe('2026-10-31');
+  });
+
+  it('brings the deadline forward when the bakery is closed that day', () => {
+    const closed = schedule({ exceptions: [{ date: '2026-10-21', hours: null, note: 'Closed' }] });
+    const deadline = DEFAULT_PICKUP_SCHEDULE.madeToOrder.orderDeadline!;
+    expect(orderDeadlineFor(closed, deadline, '2026-10-24').date).toBe('2026-10-20');
+    // Tuesday 19:00 is past the moved deadline
+    expect(isPickupDateAvailable(closed, 'madeToOrder', '2026-10-24', new Date('2026-10-20T23:00:00Z'))).toBe(false);
+  });
+});
+
+describe('pickupBookingProblem', () => {
+  it('accepts an open slot', () => {
+    expect(pickupBookingProblem(schedule(), computePickupLoad([]), 'inStock', '2026-10-20', '9:00 AM', 2, monday)).toBeNull();
+  });
+
+  it('rejects times outside the window', () => {
+    expect(pickupBookingProblem(schedule(), computePickupLoad([]), 'inStock', '2026-10-20', '8:30 AM', 2, monday))
+      .toMatch(/not a pickup time/);
+  });
+
+  it('rejects a full slot', () => {
+    const limited = schedule({ inStock: { ...DEFAULT_PICKUP_SCHEDULE.inStock, slotCapacity: 1 } });
+    const load = computePickupLoad([booking('9:00 AM', 1)]);
+    expect(pickupBookingProblem(limited, load, 'inStock', '2026-10-20', '9:00 AM', 1, monday)).toMatch(/is full/);
+    expect(pickupBookingProblem(limited, load, 'inStock', '2026-10-20', '9:30 AM', 1, monday)).toBeNull();
+  });
+
+  it('rejects more items than the day has room for', () => {
+    const limited = schedule({ inStock: { ...DEFAULT_PICKUP_SCHEDULE.inStock, dailyCapacity: 10 } });
+    const load = computePickupLoad([booking('9:00 AM', 8)]);
+    expect(pickupBookingProblem(limited, load, 'inStock', '2026-10-20', '10:00 AM', 3, monday))
+      .toBe('Only 2 more in-stock items can be booked for that day. Please choose another day.');
+  });
+
+  it('lets a capacity override raise the limit for one day', () => {
+    const limited = schedule({
+      inStock: { ...DEFAULT_PICKUP_SCHEDULE.inStock, dailyCapacity: 10 },
+      capacityOverrides: [{ date: '2026-10-20', kind: 'inStock', time: null, capacity: 20 }],
+    });
+    const load = computePickupLoad([booking('9:00 AM', 8)]);
+    expect(pickupBookingProblem(limited, load, 'inStock', '2026-10-20', '10:00 AM', 3, monday)).toBeNull();
+  });
+
+  it('frees the slots of cancelled orders', () => {
+    const load = computePickupLoad([{ ...booking('9:00 AM', 8), status: 'cancelled' }]);
+    expect(load).toEqual({ slots: {}, days: {} });
+  });
+});
@@ -0,0 +1,252 @@
+import type { Order } from '../types/order';
+import type { OrderDeadline, PickupKind, PickupLoad, PickupRules, PickupSchedule, PickupWindow, ScheduleException, Weekday } from '../types/schedule';
+import {
+  addDaysToKey, bakeryDateKey, BakeryClock, DateKey, DEFAULT_TIMEZONE, getBakeryClock, isAtOrAfter, weekdayOfKey,
+} from './bakery-time';
+
+// Shared by the order page, the admin UI and the API, so only relative imports here.
+// Dates are calendar days ("yyyy-MM-dd") and times are read off the bakery's clock,
+// so customers and servers in other timezones see the same schedule.
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const weekdayWindows = (weekdays: Weekday[], start: string, end: string): PickupWindow[] =>
+  weekdays.map(weekday => ({ weekday, start, end }));
+
+export const DEFAULT_PICKUP_SCHEDULE: PickupSchedule = {
+  timezone: DEFAULT_TIMEZONE,
+  slotMinutes: 30,
+  inStock: {
+    windows: weekdayWindows([1, 2, 3, 4, 5], '09:00', '17:00'),
+    leadDays: 1,
+    orderDeadline: null,
+    slotCapacity: null,
+    dailyCapacity: null,
+  },
+  madeToOrder: {
+    windows: weekdayWindows([6], '09:00', '17:00'),
+    leadDays: 0,
+    orderDeadline: { weekday: 3, time: '18:00' },
+    slotCapacity: null,
+    dailyCapacity: null,
+  },
+  exceptions: [],
+  capacityOverrides: [],
+};
+
+export const PICKUP_KIND_LABELS: Record<PickupKind, string> = {
+  inStock: 'In-stock items',
+  madeToOrder: 'Made-to-order items',
+};
+
+// "HH:mm" to minutes after midnight
+export function parseClockTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes after midnight to "9:00 AM", the label customers pick and orders store.
+// compact drops ":00" on the hour, for prose.
+export function formatClockTime(minutes: number, compact = false): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  const period = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  if (compact && mins === 0) return `${displayHours} ${period}`;
+  return `${displayHours}:${String(mins).padStart(2, '0')} ${period}`;
+}
+
+export const exceptionFor = (schedule: PickupSchedule, date: DateKey) =>
+  schedule.exceptions.find(exception => exception.date === date);
+
+const isClosed = (schedule: PickupSchedule, date: DateKey) => exceptionFor(schedule, date)?.hours === null;
+
+// Regular window on `date`, adjusted for closures and special hours
+function windowFor(schedule: PickupSchedule, kind: PickupKind, date: DateKey): PickupWindow | undefined {
+  const regular = schedule[kind].windows.find(window => window.weekday === weekdayOfKey(date));
+  const exception = exceptionFor(schedule, date);
+  if (!regular || !exception) return regular;
+  return exception.hours ? { ...regular, ...exception.hours } : undefined;
+}
+
+const MAX_DEADLINE_SHIFT = 7;
+
+// When orders for pickup on `date` close: the last deadline weekday strictly
+// before it, brought forward past any days the bakery is closed
+export function orderDeadlineFor(schedule: PickupSchedule, deadline: OrderDeadline, date: DateKey): BakeryClock {
+  let day = addDaysToKey(date, -((weekdayOfKey(date) - deadline.weekday + 7) % 7 || 7));
+  for (let shift = 0; shift < MAX_DEADLINE_SHIFT && isClosed(schedule, day); shift++) {
+    day = addDaysToKey(day, -1);
+  }
+  return { date: day, minutes: parseClockTime(deadline.time) };
+}
+
+// Pickup times offered on `date`, leaving out ones already past
+export function getPickupTimes(schedule: PickupSchedule, kind: PickupKind, date: DateKey, now = new Date()): string[] {
+  const window = windowFor(schedule, kind, date);
+  if (!window) return [];
+  const clock = getBakeryClock(schedule.timezone, now);
+  const times: string[] = [];
+  for (let minutes = parseClockTime(window.start); minutes <= parseClockTime(window.end); minutes += schedule.slotMinutes) {
+    if (!isAtOrAfter(clock, date, minutes)) {
+      times.push(formatClockTime(minutes));
+    }
+  }
+  return times;
+}
+
+export function isPickupDateAvailable(schedule: PickupSchedule, kind: PickupKind, date: DateKey, now = new Date()): boolean {
+  const rules = schedule[kind];
+  const clock = getBakeryClock(schedule.timezone, now);
+  if (date < addDaysToKey(clock.date, rules.leadDays)) return false;
+  if (rules.orderDeadline) {
+    const deadline = orderDeadlineFor(schedule, rules.orderDeadline, date);
+    if (isAtOrAfter(clock, deadline.date, deadline.minutes)) return false;
+  }
+  return getPickupTimes(schedule, kind, date, now).length > 0;
+}
+
+const SEARCH_DAYS = 120;
+
+// First day a new order can be picked up, if any within the next few months
+export function getEarliestPickupDate(schedule: PickupSchedule, kind: PickupKind, now = new Date()): DateKey | undefined {
+  const today = bakeryDateKey(schedule.timezone, now);
+  for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+    const date = addDaysToKey(today, offset);
+    if (isPickupDateAvailable(schedule, kind, date, now)) return date;
+  }
+  return undefined;
+}
+
+const formatHours = ({ start, end }: Pick<PickupWindow, 'start' | 'end'>) =>
+  `${formatClockTime(parseClockTime(start), true)}-${formatClockTime(parseClockTime(end), true)}`;
+
+// "Monday-Friday, 9 AM-5 PM", runs of days with the same hours grouped together
+export function describePickupWindows(rules: PickupRules): string {
+  const windows = [...rules.windows].sort((a, b) => a.weekday - b.weekday);
+  const runs: PickupWindow[][] = [];
+  windows.forEach(window => {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (last && last.weekday === window.weekday - 1 && formatHours(last) === formatHours(window)) {
+      run.push(window);
+    } else {
+      runs.push([window]);
+    }
+  });
+  return runs.map(run => {
+    const first = WEEKDAY_NAMES[run[0].weekday];
+    const days = run.length === 1 ? first : `${first}-${WEEKDAY_NAMES[run[run.length - 1].weekday]}`;
+    return `${days}, ${formatHours(run[0])}`;
+  }).join('; ');
+}
+
+export const describeOrderDeadline = (deadline: OrderDeadline) =>
+  `${WEEKDAY_NAMES[deadline.weekday]} at ${formatClockTime(parseClockTime(deadline.time), true)}`;
+
+export const describeException = (exception: ScheduleException) =>
+  exception.hours ? `open ${formatHours(exception.hours)}` : 'closed';
+
+// Closures and special hours in the next `days` days that fall on a regular pickup day
+export function getUpcomingExceptions(schedule: PickupSchedule, now = new Date(), days = 14): ScheduleException[] {
+  const from = bakeryDateKey(schedule.timezone, now);
+  const until = addDaysToKey(from, days);
+  return schedule.exceptions
+    .filter(exception => exception.date >= from && exception.date <= until)
+    .filter(exception => {
+      const weekday = weekdayOfKey(exception.date);
+      return schedule.inStock.windows.some(w => w.weekday === weekday)
+        || schedule.madeToOrder.windows.some(w => w.weekday === weekday);
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const pickupDayKey = (kind: PickupKind, date: DateKey) => `${kind}:${date}`;
+
+export const pickupSlotKey = (kind: PickupKind, date: DateKey, time: string) => `${pickupDayKey(kind, date)}:${time}`;
+
+// The parts of an order that take up pickup capacity
+export type PickupBooking = Pick<Order,
+  | 'status' | 'inStockItems' | 'madeToOrderItems'
+  | 'inStockPickupDate' | 'inStockPickupTime' | 'madeToOrderPickupDate' | 'madeToOrderPickupTime'>;
+
+const orderPickups = (order: PickupBooking) => [
+  { kind: 'inStock' as const, date: order.inStockPickupDate, time: order.inStockPickupTime, items: order.inStockItems },
+  { kind: 'madeToOrder' as const, date: order.madeToOrderPickupDate, time: order.madeToOrderPickupTime, items: order.madeToOrderItems },
+];
+
+// How booked each pickup time and day is; cancelled orders free their slot
+export function computePickupLoad(orders: PickupBooking[]): PickupLoad {
+  const load: PickupLoad = { slots: {}, days: {} };
+  orders.filter(order => order.status !== 'cancelled').forEach(order => {
+    orderPickups(order).forEach(({ kind, date, time, items }) => {
+      if (!date || !time || items.length === 0) return;
+      const slot = pickupSlotKey(kind, date, time);
+      const day = pickupDayKey(kind, date);
+      load.slots[slot] = (load.slots[slot] ?? 0) + 1;
+      load.days[day] = (load.days[day] ?? 0) + items.reduce((sum, item) => sum + item.quantity, 0);
+    });
+  });
+  return load;
+}
+
+// The load without one order's own bookings, for moving an existing order
+export function loadWithoutOrder(load: PickupLoad, order: PickupBooking): PickupLoad {
+  const own = computePickupLoad([order]);
+  const subtract = (counts: Record<string, number>, ownCounts: Record<string, number>) =>
+    Object.fromEntries(Object.entries(counts).map(([key, count]) => [key, count - (ownCounts[key] ?? 0)]));
+  return { slots: subtract(load.slots, own.slots), days: subtract(load.days, own.days) };
+}
+
+const capacityOverride = (schedule: PickupSchedule, kind: PickupKind, date: DateKey, time: string | null) =>
+  schedule.capacityOverrides.find(override =>
+    override.kind === kind && override.date === date && override.time === time)?.capacity;
+
+// Items that can still be booked on `date`, or null when there is no limit
+export function remainingDayCapacity(schedule: PickupSchedule, load: PickupLoad, kind: PickupKind, date: DateKey): number | null {
+  const capacity = capacityOverride(schedule, kind, date, null) ?? schedule[kind].dailyCapacity;
+  if (capacity === null) return null;
+  return Math.max(capacity - (load.days[pickupDayKey(kind, date)] ?? 0), 0);
+}
+
+export function isPickupSlotFull(schedule: PickupSchedule, load: PickupLoad, kind: PickupKind, date: DateKey, time: string): boolean {
+  const capacity = capacityOverride(schedule, kind, date, time) ?? schedule[kind].slotCapacity;
+  return capacity !== null && (load.slots[pickupSlotKey(kind, date, time)] ?? 0) >= capacity;
+}
+
+// Pickup times on `date` with the ones already booked up marked full
+export const getPickupSlots = (schedule: PickupSchedule, load: PickupLoad, kind: PickupKind, date: DateKey, now = new Date()) =>
+  getPickupTimes(schedule, kind, date, now).map(time => ({ time, full: isPickupSlotFull(schedule, load, kind, date, time) }));
+
+// Whether an order of `items` items can still be booked for `date`
+export function isPickupDateBookable(
+  schedule: PickupSchedule, load: PickupLoad, kind: PickupKind, date: DateKey, items: number, now = new Date(),
+): boolean {
+  if (!isPickupDateAvailable(schedule, kind, date, now)) return false;
+  const remaining = remainingDayCapacity(schedule, load, kind, date);
+  if (remaining !== null && remaining < items) return false;
+  return getPickupSlots(schedule, load, kind, date, now).some(slot => !slot.full);
+}
+
+// Why a pickup can't be booked, or null when it can
+export function pickupBookingProblem(
+  schedule: PickupSchedule, load: PickupLoad, kind: PickupKind, date: DateKey, time: string, items: number, now = new Date(),
+): string | null {
+  const label = PICKUP_KIND_LABELS[kind].toLowerCase();
+  if (!isPickupDateAvailable(schedule, kind, date, now)) {
+    return `${PICKUP_KIND_LABELS[kind]} can no longer be picked up on that day. Please choose another day.`;
+  }
+  if (!getPickupTimes(schedule, kind, date, now).includes(time)) {
+    return `${time} is not a pickup time for ${label} on that day. Please choose another time.`;
+  }
+  const remaining = remainingDayCapacity(schedule, load, kind, date);
+  if (remaining !== null && remaining < items) {
+    return remaining === 0
+      ? `${PICKUP_KIND_LABELS[kind]} are fully booked for that day. Please choose another day.`
+      : `Only ${remaining} more ${label} can be booked for that day. Please choose another day.`;
+  }
+  if (isPickupSlotFull(schedule, load, kind, date, time)) {
+    return `The ${time} pickup for ${label} is full. Please choose another time.`;
+  }
+  return null;
+}
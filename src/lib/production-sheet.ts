@@ -0,0 +1,146 @@
+import type { MenuItem } from '@/data/types';
+import type { Order, OrderItem } from '@/types/order';
+import { fromDateKey, type DateKey } from '@/lib/bakery-time';
+import { format } from 'date-fns';
+
+export interface ProductionLine {
+  id: string;
+  name: string;
+  ordered: number;
+  batchSize: number;
+  batches: number;
+  // Whole batches, so usually a little more than was ordered
+  toBake: number;
+}
+
+export interface ProductionCategory {
+  category: string;
+  lines: ProductionLine[];
+}
+
+export interface ProductionNote {
+  orderId: string;
+  customerName: string;
+  pickupTime?: string;
+  items: OrderItem[];
+  instructions: string;
+}
+
+export interface ProductionSheet {
+  date: DateKey;
+  orderCount: number;
+  categories: ProductionCategory[];
+  notes: ProductionNote[];
+}
+
+// Items removed from the menu since they were ordered still need baking
+const UNCATEGORIZED = 'Other';
+
+// The menu form has stored batch sizes as text, so read them loosely
+export function batchSizeOf(item?: Pick<MenuItem, 'batchSize'>): number {
+  const size = Math.floor(Number(item?.batchSize));
+  return size >= 1 ? size : 1;
+}
+
+// Orders store pickup times as "9:00 AM" labels
+function pickupTimeMinutes(time?: string): number {
+  const match = time?.match(/^(\d{1,2}):(\d{2}) (AM|PM)$/);
+  if (!match) return 0;
+  return ((Number(match[1]) % 12) + (match[3] === 'PM' ? 12 : 0)) * 60 + Number(match[2]);
+}
+
+const isMadeToOrderPickup = (order: Order, date: DateKey) =>
+  order.status !== 'cancelled' && order.madeToOrderPickupDate === date && order.madeToOrderItems.length > 0;
+
+// Made-to-order pickup days from `from` on that have something to bake
+export function upcomingProductionDates(orders: Order[], from: DateKey): DateKey[] {
+  const dates = new Set(orders
+    .map(order => order.madeToOrderPickupDate)
+    .filter((date): date is DateKey => !!date && date >= from));
+  return [...dates].filter(date => orders.some(order => isMadeToOrderPickup(order, date))).sort();
+}
+
+export function buildProductionSheet(orders: Order[], menuItems: MenuItem[], date: DateKey): ProductionSheet {
+  const dayOrders = orders.filter(order => isMadeToOrderPickup(order, date));
+  const menuById = new Map(menuItems.map(item => [item.id, item]));
+
+  const ordered = new Map<string, { name: string; quantity: number }>();
+  dayOrders.flatMap(order => order.madeToOrderItems).forEach(item => {
+    const line = ordered.get(item.id);
+    ordered.set(item.id, { name: line?.name ?? item.name, quantity: (line?.quantity ?? 0) + item.quantity });
+  });
+
+  const byCategory = new Map<string, ProductionLine[]>();
+  ordered.forEach(({ name, quantity }, id) => {
+    const menuItem = menuById.get(id);
+    const category = menuItem?.category || UNCATEGORIZED;
+    const batchSize = batchSizeOf(menuItem);
+    const batches = Math.ceil(quantity / batchSize);
+    byCategory.set(category, [
+      ...byCategory.get(category) ?? [],
+      { id, name: menuItem?.name ?? name, ordered: quantity, batchSize, batches, toBake: batches * batchSize },
+    ]);
+  });
+
+  const categories = [...byCategory]
+    .map(([category, lines]) => ({ category, lines: lines.sort((a, b) => a.name.localeCompare(b.name)) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  const notes = dayOrders
+    .filter(order => order.specialInstructions?.trim())
+    .map(order => ({
+      orderId: order.id,
+      customerName: order.customerName,
+      pickupTime: order.madeToOrderPickupTime,
+      items: order.madeToOrderItems,
+      instructions: order.specialInstructions!.trim(),
+    }))
+    .sort((a, b) => pickupTimeMinutes(a.pickupTime) - pickupTimeMinutes(b.pickupTime));
+
+  return { date, orderCount: dayOrders.length, categories, notes };
+}
+
+export const describeProductionDate = (date: DateKey) => format(fromDateKey(date), 'EEEE, MMMM d, yyyy');
+
+const describeItems = (items: OrderItem[]) => items.map(item => `${item.quantity} x ${item.name}`).join(', ');
+
+// Loaded on demand, like the Excel export
+export async function downloadProductionSheetPdf(sheet: ProductionSheet, fileName: string) {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF();
+  // Where the last table ended, as of the last page it drew
+  let tableEnd = 30;
+  const trackTableEnd = ({ cursor }: { cursor: { y: number } | null }) => {
+    if (cursor) tableEnd = cursor.y;
+  };
+
+  doc.setFontSize(16);
+  doc.text('Production Sheet', 14, 18);
+  doc.setFontSize(11);
+  doc.text(`${describeProductionDate(sheet.date)} · ${sheet.orderCount} orders`, 14, 25);
+
+  autoTable(doc, {
+    startY: 30,
+    head: [['Item', 'Ordered', 'Batch Size', 'Batches', 'To Bake']],
+    body: sheet.categories.flatMap(({ category, lines }) => [
+      [{ content: category, colSpan: 5, styles: { fontStyle: 'bold', fillColor: [245, 240, 230] } }],
+      ...lines.map(line => [line.name, line.ordered, line.batchSize, line.batches, line.toBake]),
+    ]),
+    headStyles: { fillColor: [139, 69, 19] },
+    didDrawPage: trackTableEnd,
+  });
+
+  if (sheet.notes.length > 0) {
+    autoTable(doc, {
+      startY: tableEnd + 10,
+      head: [['Order', 'Customer', 'Pickup', 'Items', 'Special Instructions']],
+      body: sheet.notes.map(note => [
+        note.orderId, note.customerName, note.pickupTime ?? '', describeItems(note.items), note.instructions,
+      ]),
+      headStyles: { fillColor: [139, 69, 19] },
+      columnStyles: { 4: { cellWidth: 60 } },
+    });
+  }
+
+  doc.save(fileName);
+}
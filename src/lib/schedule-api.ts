@@ -0,0 +1,12 @@
+import type { PickupSchedule } from '@/types/schedule';
+import { apiRequest } from '@/lib/api';
+
+export const SCHEDULE_QUERY_KEY = ['pickup-schedule'];
+
+export const fetchPickupSchedule = () => apiRequest<PickupSchedule>('/schedule');
+
+export const updatePickupSchedule = (schedule: PickupSchedule) =>
+  apiRequest<PickupSchedule>('/schedule', {
+    method: 'PUT',
+    body: JSON.stringify(schedule),
+  });
@@ -0,0 +1,16 @@
+import type { NewStaffUser, StaffUser, StaffUserUpdate } from '@/types/auth';
+import { apiRequest } from '@/lib/api';
+
+export const fetchStaff = () => apiRequest<StaffUser[]>('/staff');
+
+export const createStaffUser = (user: NewStaffUser) =>
+  apiRequest<StaffUser>('/staff', {
+    method: 'POST',
+    body: JSON.stringify(user),
+  });
+
+export const updateStaffUser = (userId: string, updates: StaffUserUpdate) =>
+  apiRequest<StaffUser>(`/staff/${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
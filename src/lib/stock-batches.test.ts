@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  availableStock,
+  batchesForCount,
+  expiryOf,
+  removeFromBatches,
+  returnToBatches,
+  sellFromBatches,
+} from './stock-batches';
+import { menuItem } from '../test/menu-item';
+
+const today = '2026-10-18';
+
+// 3 untracked units, 3 baked on the 15th (expired on the 17th) and 4 baked on
+// the 17th (expiring tomorrow)
+const cookie = menuItem({
+  stock: 10,
+  shelfLife: 2,
+  batches: [{ bakedOn: '2026-10-15', quantity: 3 }, { bakedOn: '2026-10-17', quantity: 4 }],
+});
+
+describe('expiry', () => {
+  it("doesn't sell expired batches", () => {
+    expect(availableStock(cookie, today)).toBe(7);
+    expect(expiryOf(cookie, today)).toEqual({ expired: 3, expiringSoon: 4 });
+  });
+
+  it('never expires items without a shelf life', () => {
+    const item = { ...cookie, shelfLife: undefined };
+    expect(availableStock(item, today)).toBe(10);
+    expect(expiryOf(item, today)).toEqual({ expired: 0, expiringSoon: 0 });
+  });
+
+  it('ignores batches beyond the stock, oldest first', () => {
+    expect(availableStock({ ...cookie, stock: 4 }, today)).toBe(4);
+  });
+});
+
+describe('FIFO', () => {
+  it('sells untracked stock first, then the oldest fresh batch, and skips expired ones', () => {
+    expect(sellFromBatches(cookie, 5, today)).toEqual({
+      batches: [{ bakedOn: '2026-10-15', quantity: 3 }, { bakedOn: '2026-10-17', quantity: 2 }],
+      moved: [{ bakedOn: '2026-10-17', quantity: 2 }],
+    });
+  });
+
+  it('takes expired batches first for waste', () => {
+    expect(removeFromBatches(cookie, 4, today)).toEqual({
+      batches: [{ bakedOn: '2026-10-17', quantity: 4 }],
+      moved: [{ bakedOn: '2026-10-15', quantity: 3 }],
+    });
+  });
+
+  it('dates extra counted units today and removes missing ones like waste', () => {
+    expect(batchesForCount(cookie, 12, today).moved).toEqual([{ bakedOn: today, quantity: 2 }]);
+    expect(batchesForCount(cookie, 8, today).batches).toEqual([
+      { bakedOn: '2026-10-15', quantity: 1 },
+      { bakedOn: '2026-10-17', quantity: 4 },
+    ]);
+  });
+
+  it('returns units to the batches an order took them from, newest first', () => {
+    const held = [{ bakedOn: '2026-10-16', quantity: 1 }, { bakedOn: '2026-10-17', quantity: 2 }];
+    expect(returnToBatches(cookie, 3, held)).toEqual({
+      batches: [
+        { bakedOn: '2026-10-15', quantity: 3 },
+        { bakedOn: '2026-10-16', quantity: 1 },
+        { bakedOn: '2026-10-17', quantity: 6 },
+      ],
+      moved: [{ bakedOn: '2026-10-17', quantity: 2 }, { bakedOn: '2026-10-16', quantity: 1 }],
+    });
+    expect(returnToBatches(cookie, 1, held).moved).toEqual([{ bakedOn: '2026-10-17', quantity: 1 }]);
+  });
+});
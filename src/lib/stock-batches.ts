@@ -0,0 +1,129 @@
+// In-stock units as dated batches, and when they expire. Shared by the UI and
+// the API, so only relative imports here.
+import type { MenuItem } from '../data/types';
+import type { StockBatch } from '../types/stock';
+import { addDaysToKey, type DateKey } from './bakery-time';
+import { sellableStock } from './inventory';
+
+// Alerts warn this many days before a batch expires
+export const EXPIRY_WARNING_DAYS = 1;
+
+// The menu form has stored shelf lives as text, so read them loosely
+export function shelfLifeOf(item: Pick<MenuItem, 'shelfLife'>): number | null {
+  const days = Math.floor(Number(item.shelfLife));
+  return days >= 1 ? days : null;
+}
+
+// The first day a batch can no longer be sold. Items without a shelf life never expire.
+export function expiresOn(item: MenuItem, batch: StockBatch): DateKey | null {
+  const shelfLife = shelfLifeOf(item);
+  return shelfLife ? addDaysToKey(batch.bakedOn, shelfLife) : null;
+}
+
+export function isExpired(item: MenuItem, batch: StockBatch, today: DateKey): boolean {
+  const expiry = expiresOn(item, batch);
+  return expiry !== null && expiry <= today;
+}
+
+const totalOf = (batches: StockBatch[]) => batches.reduce((sum, batch) => sum + batch.quantity, 0);
+
+// Merge batches baked the same day and sort them oldest first
+export function addToBatches(batches: StockBatch[], added: StockBatch[]): StockBatch[] {
+  const byDay = new Map<DateKey, number>();
+  [...batches, ...added].forEach(({ bakedOn, quantity }) => byDay.set(bakedOn, (byDay.get(bakedOn) ?? 0) + quantity));
+  return [...byDay]
+    .filter(([, quantity]) => quantity > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([bakedOn, quantity]) => ({ bakedOn, quantity }));
+}
+
+// The item's batches, trimmed from the oldest end when they add up to more
+// than its stock, e.g. after the store was edited by hand
+export function batchesOf(item: MenuItem): StockBatch[] {
+  const batches = addToBatches([], item.batches ?? []);
+  let excess = totalOf(batches) - sellableStock(item);
+  return batches.flatMap(batch => {
+    const trimmed = Math.min(Math.max(excess, 0), batch.quantity);
+    excess -= trimmed;
+    return trimmed < batch.quantity ? [{ ...batch, quantity: batch.quantity - trimmed }] : [];
+  });
+}
+
+// Stock counted before batches were tracked
+export const untrackedStock = (item: MenuItem) => sellableStock(item) - totalOf(batchesOf(item));
+
+export const expiredStock = (item: MenuItem, today: DateKey) =>
+  totalOf(batchesOf(item).filter(batch => isExpired(item, batch, today)));
+
+// What customers can still order: expired batches stay on the shelf until
+// they're written off, but aren't sold
+export const availableStock = (item: MenuItem, today: DateKey) => sellableStock(item) - expiredStock(item, today);
+
+// Units that have expired, and units that will within the warning window
+export function expiryOf(item: MenuItem, today: DateKey): { expired: number; expiringSoon: number } {
+  const warnUntil = addDaysToKey(today, EXPIRY_WARNING_DAYS);
+  let expired = 0;
+  let expiringSoon = 0;
+  batchesOf(item).forEach(batch => {
+    const expiry = expiresOn(item, batch);
+    if (expiry === null || expiry > warnUntil) return;
+    if (expiry <= today) expired += batch.quantity;
+    else expiringSoon += batch.quantity;
+  });
+  return { expired, expiringSoon };
+}
+
+export interface BatchChange {
+  batches: StockBatch[];
+  // The dated units added or taken
+  moved: StockBatch[];
+}
+
+// Take units oldest first, with untracked stock counted as the oldest.
+// Expired batches go first when they can be taken and are skipped otherwise.
+function takeFromBatches(item: MenuItem, quantity: number, today: DateKey, takeExpired: boolean): BatchChange {
+  const batches = batchesOf(item);
+  const moved: StockBatch[] = [];
+  let remaining = quantity;
+  const take = (batch: StockBatch): StockBatch => {
+    const taken = Math.min(batch.quantity, remaining);
+    remaining -= taken;
+    if (taken > 0) moved.push({ bakedOn: batch.bakedOn, quantity: taken });
+    return { ...batch, quantity: batch.quantity - taken };
+  };
+
+  const expired = batches.filter(batch => isExpired(item, batch, today));
+  const fresh = batches.filter(batch => !isExpired(item, batch, today));
+  const left = takeExpired ? expired.map(take) : expired;
+  remaining -= Math.min(untrackedStock(item), remaining);
+  left.push(...fresh.map(take));
+  return { batches: addToBatches([], left), moved };
+}
+
+// Orders take the oldest units they can still sell
+export const sellFromBatches = (item: MenuItem, quantity: number, today: DateKey) =>
+  takeFromBatches(item, quantity, today, false);
+
+// Waste and give-aways clear expired batches first
+export const removeFromBatches = (item: MenuItem, quantity: number, today: DateKey) =>
+  takeFromBatches(item, quantity, today, true);
+
+// A new stock count: extra units are dated today and missing ones come off like waste
+export function batchesForCount(item: MenuItem, count: number, today: DateKey): BatchChange {
+  const difference = count - sellableStock(item);
+  if (difference < 0) return removeFromBatches(item, -difference, today);
+  const moved = difference > 0 ? [{ bakedOn: today, quantity: difference }] : [];
+  return { batches: addToBatches(batchesOf(item), moved), moved };
+}
+
+// Units an order gives back go into the batches it took them from, newest
+// first. Units beyond those batches go back untracked.
+export function returnToBatches(item: MenuItem, quantity: number, held: StockBatch[]): BatchChange {
+  let remaining = quantity;
+  const moved = [...held].reverse().flatMap(batch => {
+    const returned = Math.min(batch.quantity, remaining);
+    remaining -= returned;
+    return returned > 0 ? [{ bakedOn: batch.bakedOn, quantity: returned }] : [];
+  });
+  return { batches: addToBatches(batchesOf(item), moved), moved };
+}
@@ -7,16 +7,31 @@ import { useNavigate, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { MenuManager } from "@/components/MenuManager";
-import { ClipboardList, Package, Settings, LogOut, ChevronRight, AlertCircle, BarChart2, Users, TrendingUp } from 'lucide-react';
+import { MenuHistory } from "@/components/MenuHistory";
+import { StaffManager } from "@/components/StaffManager";
+import { PickupScheduleSettings } from "@/components/PickupScheduleSettings";
+import { IngredientSettings } from "@/components/IngredientSettings";
+import { STAFF_ROLES } from "@/lib/permissions";
+import { isLowStock } from "@/lib/inventory";
+import { expiryOf } from "@/lib/stock-batches";
+import { bakeryDateKey } from "@/lib/bakery-time";
+import { usePickupSchedule } from "@/hooks/use-pickup-schedule";
+import { useInventory } from "@/hooks/use-inventory";
+import { ClipboardList, ChefHat, Package, Settings, LogOut, ChevronRight, AlertCircle, BarChart2, Users, TrendingUp, Clock } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format, isToday } from 'date-fns';
 
 const Admin = () => {
-  const { isAuthenticated, logout } = useAuth();
+  const { isAuthenticated, logout, user, hasPermission } = useAuth();
   const { menuItems } = useMenu();
+  // Staff who manage inventory see its settings and batches; everyone else
+  // sees the stock on the public menu
+  const { inventory } = useInventory(hasPermission('inventory:manage'));
+  const stockItems = inventory ?? menuItems;
   const { orders, getTodayOrders } = useOrder();
+  const { schedule } = usePickupSchedule();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState("overview");
@@ -24,13 +39,20 @@ const Admin = () => {
   // Calculate dashboard stats
   const stats = {
     pendingOrders: orders.filter(order => order.status === 'pending').length,
-    lowStockItems: menuItems.filter(item => !item.madeToOrder && item.stock < 5).length,
+    lowStockItems: stockItems.filter(isLowStock).length,
     todaySales: getTodayOrders().length,
     totalRevenue: getTodayOrders().reduce((total, order) => total + order.total, 0)
   };
 
+  // Stock past or near the end of its shelf life
+  const today = bakeryDateKey(schedule.timezone);
+  const expiringStock = stockItems
+    .filter(item => item.active)
+    .map(item => ({ item, ...expiryOf(item, today) }))
+    .filter(({ expired, expiringSoon }) => expired > 0 || expiringSoon > 0);
+
   // Calculate inventory summary
-  const inventorySummary = menuItems.map(item => {
+  const inventorySummary = stockItems.map(item => {
     const todayOrders = getTodayOrders();
     const itemOrders = todayOrders.flatMap(order => [
       ...order.inStockItems.filter(orderItem => orderItem.id === item.id),
@@ -40,7 +62,7 @@ const Admin = () => {
     const totalOrdered = itemOrders.reduce((sum, orderItem) => sum + orderItem.quantity, 0);
     const stockStatus = item.madeToOrder ? 'Made to Order' : 
       item.stock <= 0 ? 'Out of Stock' :
-      item.stock < 5 ? 'Low Stock' : 'In Stock';
+      isLowStock(item) ? 'Low Stock' : 'In Stock';
 
     return {
       id: item.id,
@@ -54,8 +76,8 @@ const Admin = () => {
     };
   });
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     toast({
       title: "Logged out",
       description: "You have been successfully logged out.",
@@ -67,16 +89,37 @@ const Admin = () => {
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-4xl font-serif font-bold text-bakery-brown">Admin Dashboard</h1>
-        <Button variant="outline" onClick={handleLogout} className="flex items-center gap-2">
-          <LogOut size={16} />
-          Logout
-        </Button>
+        <div className="flex items-center gap-4">
+          {user && (
+            <span className="text-sm text-muted-foreground">
+              Signed in as {user.name} ({STAFF_ROLES.find(role => role.value === user.role)?.label})
+            </span>
+          )}
+          <Button variant="outline" onClick={handleLogout} className="flex items-center gap-2">
+            <LogOut size={16} />
+            Logout
+          </Button>
+        </div>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
-          <TabsTrigger value="menu">Menu Management</TabsTrigger>
+          {hasPermission('menu:edit') && (
+            <TabsTrigger value="menu">Menu Management</TabsTrigger>
+          )}
+          {hasPermission('menu:edit') && (
+            <TabsTrigger value="menu-history">Menu History</TabsTrigger>
+          )}
+          {hasPermission('settings:manage') && (
+            <TabsTrigger value="schedule">Pickup Schedule</TabsTrigger>
+          )}
+          {hasPermission('inventory:manage') && (
+            <TabsTrigger value="ingredients">Ingredients</TabsTrigger>
+          )}
+          {hasPermission('staff:manage') && (
+            <TabsTrigger value="staff">Staff</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -132,6 +175,35 @@ const Admin = () => {
             </Card>
           </div>
 
+          {/* Expiring Stock */}
+          {expiringStock.length > 0 && (
+            <Card className="border-destructive">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-destructive">
+                  <Clock className="h-5 w-5" />
+                  Expiring Stock
+                </CardTitle>
+                <CardDescription>
+                  Expired units are no longer offered for sale. Write them off on the{' '}
+                  <Link to="/admin/inventory" className="underline">inventory page</Link>.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {expiringStock.map(({ item, expired, expiringSoon }) => (
+                    <div key={item.id} className="flex items-center justify-between">
+                      <span>{item.name}</span>
+                      <div className="flex gap-2">
+                        {expired > 0 && <Badge variant="destructive">{expired} expired</Badge>}
+                        {expiringSoon > 0 && <Badge variant="secondary">{expiringSoon} expiring soon</Badge>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Inventory and Order Summary Table */}
           <Card>
             <CardHeader>
@@ -178,7 +250,7 @@ const Admin = () => {
           </Card>
 
           {/* Management Systems */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             <Link to="/admin/orders">
               <Card className="hover:shadow-lg transition-shadow cursor-pointer">
                 <CardHeader>
@@ -201,6 +273,25 @@ const Admin = () => {
               </Card>
             </Link>
 
+            <Link to="/admin/production">
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ChefHat className="h-5 w-5" />
+                    Production Sheet
+                  </CardTitle>
+                  <CardDescription>
+                    What to bake for upcoming made-to-order pickups
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center justify-end">
+                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+
             <Link to="/admin/inventory">
               <Card className="hover:shadow-lg transition-shadow cursor-pointer">
                 <CardHeader>
@@ -225,7 +316,7 @@ const Admin = () => {
 
             <Card 
               className="hover:shadow-lg transition-shadow cursor-pointer"
-              onClick={() => setActiveTab("menu")}
+              onClick={() => hasPermission('menu:edit') && setActiveTab("menu")}
             >
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -248,9 +339,35 @@ const Admin = () => {
           </div>
         </TabsContent>
 
-        <TabsContent value="menu">
-          <MenuManager />
-        </TabsContent>
+        {hasPermission('menu:edit') && (
+          <TabsContent value="menu">
+            <MenuManager />
+          </TabsContent>
+        )}
+
+        {hasPermission('menu:edit') && (
+          <TabsContent value="menu-history">
+            <MenuHistory />
+          </TabsContent>
+        )}
+
+        {hasPermission('settings:manage') && (
+          <TabsContent value="schedule">
+            <PickupScheduleSettings />
+          </TabsContent>
+        )}
+
+        {hasPermission('inventory:manage') && (
+          <TabsContent value="ingredients">
+            <IngredientSettings />
+          </TabsContent>
+        )}
+
+        {hasPermission('staff:manage') && (
+          <TabsContent value="staff">
+            <StaffManager />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
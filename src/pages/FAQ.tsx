@@ -1,8 +1,20 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { format } from 'date-fns';
+import { describeException, describeOrderDeadline, describePickupWindows, getUpcomingExceptions } from '@/lib/pickup-schedule';
+import { fromDateKey } from '@/lib/bakery-time';
 
 const FAQPage = () => {
+  const { schedule } = usePickupSchedule();
+  const inStockHours = describePickupWindows(schedule.inStock);
+  const madeToOrderHours = describePickupWindows(schedule.madeToOrder);
+  const deadline = schedule.madeToOrder.orderDeadline && describeOrderDeadline(schedule.madeToOrder.orderDeadline);
+  const scheduleChanges = getUpcomingExceptions(schedule, new Date(), 30)
+    .map(exception => `${format(fromDateKey(exception.date), 'MMMM d')} we're ${describeException(exception)}${exception.note ? ` for ${exception.note}` : ''}`)
+    .join('; ');
+
   const faqs = [
     {
       question: "How do I place an order?",
@@ -10,7 +22,9 @@ const FAQPage = () => {
     },
     {
       question: "What are your pickup times?",
-      answer: "In-stock items can be picked up Monday through Friday between 9 AM to 5 PM. Made-to-order items can be picked up on Saturdays from 9 AM to 5 PM. All made-to-order items must be ordered before Wednesday at 6 PM. Orders placed before Wednesday 6 PM can be picked up the upcoming Saturday, while orders placed after Wednesday 6 PM will be scheduled for pickup the following Saturday."
+      answer: `In-stock items can be picked up ${inStockHours}. Made-to-order items can be picked up ${madeToOrderHours}.` +
+        (deadline ? ` All made-to-order items must be ordered before ${deadline}. Orders placed after that will be scheduled for the following pickup day.` : '') +
+        (scheduleChanges ? ` Coming up: on ${scheduleChanges}.` : '')
     },
     {
       question: "Do you offer delivery?",
@@ -18,7 +32,10 @@ const FAQPage = () => {
     },
     {
       question: "What is your order deadline?",
-      answer: "Orders for made-to-order items close on Wednesdays at 6 PM. Orders placed before Wednesday 6 PM can be picked up the upcoming Saturday, while orders placed after Wednesday 6 PM will be scheduled for pickup the following Saturday. In-stock items can be ordered anytime during business hours (Monday-Friday, 9 AM-5 PM)."
+      answer: (deadline
+        ? `Orders for made-to-order items close on ${deadline}. Orders placed before then can be picked up on the upcoming pickup day, while orders placed later will be scheduled for the following one.`
+        : 'Made-to-order items can be ordered at any time.') +
+        ` In-stock items can be ordered anytime for pickup during business hours (${inStockHours}).`
     },
     {
       question: "Do you accommodate dietary restrictions?",
@@ -34,7 +51,7 @@ const FAQPage = () => {
     },
     {
       question: "Can I modify or cancel my order?",
-      answer: "Orders can be modified or cancelled up until the order deadline (Thursday at 6pm). Please contact us as soon as possible if you need to make changes."
+      answer: `Orders can be modified or cancelled up until the order deadline${deadline ? ` (${deadline})` : ''}. Use the link in your confirmation email to change quantities or your pickup time, or to cancel. After that, please contact us as soon as possible if you need to make changes.`
     },
     {
       question: "Do you offer custom orders?",
@@ -1,19 +1,33 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Search, Download, Plus, AlertTriangle, History, BarChart2, Settings, Edit, Trash2 } from 'lucide-react';
+import { Search, Download, AlertTriangle, History, BarChart2, Edit, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useStockAdjustment } from '@/hooks/use-stock-adjustment';
+import { StockHistory } from '@/components/StockHistory';
+import { useOrder } from '@/contexts/OrderContext';
+import { useInventory } from '@/hooks/use-inventory';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { bakeryDateKey } from '@/lib/bakery-time';
+import { expiryOf } from '@/lib/stock-batches';
+import { downloadInventoryCsv, toInventoryReportRows } from '@/lib/inventory-export';
+import * as menuApi from '@/lib/menu-api';
+import { INVENTORY_QUERY_KEY, MENU_QUERY_KEY } from '@/lib/menu-api';
+import { isLowStock, minimumStockOf, reorderPointOf, stockStatusOf, unitsSoldSince, type StockStatus } from '@/lib/inventory';
+import type { InventoryUpdate, MenuItem } from '@/data/types';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog";
 import {
   Tooltip,
@@ -21,148 +35,93 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Textarea } from "@/components/ui/textarea";
 import { format, subDays } from 'date-fns';
 
 // Types
-interface InventoryItem {
-  id: string;
-  name: string;
-  category: string;
-  stock: number;
-  madeToOrder: boolean;
-  price: number;
-  lastUpdated: Date;
-  minimumStock: number;
-  description?: string;
-  ingredients?: string[];
-  allergens?: string[];
-  shelfLife?: number; // in days
-  supplier?: string;
-  supplierContact?: string;
-  reorderPoint: number;
-  reorderQuantity: number;
-  unit: string;
-  cost: number;
-  location?: string;
-  notes?: string;
-  lastOrdered?: Date;
-  nextOrderDate?: Date;
-  salesHistory: {
-    date: Date;
-    quantity: number;
-  }[];
-}
-
 interface StockAlert {
   id: string;
   itemId: string;
   type: 'low-stock' | 'expiring' | 'reorder';
   message: string;
-  createdAt: Date;
-  resolved: boolean;
+  // Expired units the alert's action writes off
+  writeOff?: number;
 }
 
+type InventorySettings = Required<Pick<MenuItem, 'minimumStock' | 'reorderPoint' | 'reorderQuantity' | 'cost'>> & { supplier: string };
+
+const settingsOf = (item: MenuItem): InventorySettings => ({
+  minimumStock: minimumStockOf(item),
+  reorderPoint: reorderPointOf(item),
+  reorderQuantity: item.reorderQuantity ?? 0,
+  cost: item.cost ?? 0,
+  supplier: item.supplier ?? '',
+});
+
+// Daily average is over the last week of orders
+const SALES_DAYS = 7;
+
 const InventoryManagement = () => {
-  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const { inventory: inventoryItems } = useInventory();
+  const { orders } = useOrder();
+  const { schedule } = usePickupSchedule();
+  const today = bakeryDateKey(schedule.timezone);
+  const queryClient = useQueryClient();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
+  const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [stockAlerts, setStockAlerts] = useState<StockAlert[]>([]);
+  // Stock typed into the table but not saved yet
+  const [stockDrafts, setStockDrafts] = useState<Record<string, string>>({});
+  const [settings, setSettings] = useState<InventorySettings | null>(null);
   const { toast } = useToast();
+  const stockAdjustment = useStockAdjustment();
 
-  // Mock data - replace with actual API call
-  useEffect(() => {
-    // TODO: Replace with actual API call
-    const mockInventory: InventoryItem[] = [
-      {
-        id: '1',
-        name: 'Brown Butter Chocolate Chips Cookie',
-        category: 'Cookies',
-        stock: 12,
-        madeToOrder: false,
-        price: 3.5,
-        lastUpdated: new Date('2024-03-19'),
-        minimumStock: 10,
-        description: 'Classic chocolate chip cookie with brown butter',
-        ingredients: ['flour', 'butter', 'chocolate chips', 'sugar', 'eggs'],
-        allergens: ['gluten', 'dairy', 'eggs'],
-        shelfLife: 7,
-        supplier: 'Local Bakery Supplies',
-        supplierContact: 'supplier@example.com',
-        reorderPoint: 15,
-        reorderQuantity: 50,
-        unit: 'pieces',
-        cost: 1.5,
-        location: 'Shelf A-1',
-        notes: 'Best seller, keep well stocked',
-        lastOrdered: new Date('2024-03-01'),
-        nextOrderDate: new Date('2024-03-25'),
-        salesHistory: [
-          { date: new Date('2024-03-19'), quantity: 5 },
-          { date: new Date('2024-03-18'), quantity: 8 },
-          { date: new Date('2024-03-17'), quantity: 6 }
-        ]
-      },
-      {
-        id: '2',
-        name: 'Sourdough Rosemary Focaccia',
-        category: 'Bread',
-        stock: 0,
-        madeToOrder: true,
-        price: 11,
-        lastUpdated: new Date('2024-03-19'),
-        minimumStock: 0,
-        description: 'Artisan focaccia with fresh rosemary',
-        ingredients: ['flour', 'water', 'salt', 'rosemary', 'olive oil'],
-        allergens: ['gluten'],
-        shelfLife: 3,
-        supplier: 'Local Flour Mill',
-        supplierContact: 'mill@example.com',
-        reorderPoint: 5,
-        reorderQuantity: 20,
-        unit: 'loaves',
-        cost: 4,
-        location: 'Bread Shelf',
-        notes: 'Made fresh daily',
-        salesHistory: [
-          { date: new Date('2024-03-19'), quantity: 3 },
-          { date: new Date('2024-03-18'), quantity: 4 },
-          { date: new Date('2024-03-17'), quantity: 2 }
-        ]
-      }
-    ];
-    setInventory(mockInventory);
+  // Everything on the menu, the same stock the order page sells from
+  const inventory = useMemo(() => (inventoryItems ?? []).filter(item => item.active), [inventoryItems]);
 
-    // Generate stock alerts
+  const stockAlerts = useMemo(() => {
     const alerts: StockAlert[] = [];
-    mockInventory.forEach(item => {
-      if (!item.madeToOrder && item.stock < item.minimumStock) {
+    inventory.forEach(item => {
+      if (isLowStock(item)) {
         alerts.push({
           id: `alert-${item.id}`,
           itemId: item.id,
           type: 'low-stock',
-          message: `${item.name} is running low on stock (${item.stock} remaining)`,
-          createdAt: new Date(),
-          resolved: false
+          message: `${item.name} is running low on stock (${Math.max(item.stock, 0)} remaining)`,
         });
-      }
-      if (item.nextOrderDate && item.nextOrderDate <= new Date()) {
+      } else if (stockStatusOf(item) === 'reorder-point') {
         alerts.push({
           id: `reorder-${item.id}`,
           itemId: item.id,
           type: 'reorder',
           message: `Time to reorder ${item.name}`,
-          createdAt: new Date(),
-          resolved: false
+        });
+      }
+
+      const { expired, expiringSoon } = expiryOf(item, today);
+      if (expired > 0) {
+        alerts.push({
+          id: `expired-${item.id}`,
+          itemId: item.id,
+          type: 'expiring',
+          message: `${expired} ${item.name} have expired and are no longer offered for sale`,
+          writeOff: expired,
+        });
+      }
+      if (expiringSoon > 0) {
+        alerts.push({
+          id: `expiring-${item.id}`,
+          itemId: item.id,
+          type: 'expiring',
+          message: `${expiringSoon} ${item.name} are close to the end of their shelf life`,
         });
       }
     });
-    setStockAlerts(alerts);
-  }, []);
+    return alerts;
+  }, [inventory, today]);
+
+  const soldThisWeek = useMemo(() => unitsSoldSince(orders, subDays(new Date(), SALES_DAYS)), [orders]);
 
   const categories = ['all', ...new Set(inventory.map(item => item.category))];
 
@@ -171,77 +130,133 @@ const InventoryManagement = () => {
     const matchesSearch = 
       item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       item.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.location?.toLowerCase().includes(searchQuery.toLowerCase());
+      item.supplier?.toLowerCase().includes(searchQuery.toLowerCase());
     return matchesCategory && matchesSearch;
   });
 
-  const handleStockUpdate = async (itemId: string, newStock: number) => {
+  const inventoryMutation = useMutation({
+    mutationFn: ({ itemId, updates }: { itemId: string; updates: InventoryUpdate }) =>
+      menuApi.updateInventory(itemId, updates),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MenuItem[]>(INVENTORY_QUERY_KEY, items =>
+        items?.map(item => (item.id === updated.id ? updated : item)));
+      queryClient.invalidateQueries({ queryKey: MENU_QUERY_KEY });
+    },
+  });
+
+  const handleStockUpdate = async (item: MenuItem, newStock: number) => {
+    setStockDrafts(({ [item.id]: _, ...rest }) => rest);
+    if (isNaN(newStock) || newStock === item.stock) return;
     try {
-      // TODO: Replace with actual API call
-      setInventory(inventory.map(item => 
-        item.id === itemId ? { 
-          ...item, 
-          stock: newStock, 
-          lastUpdated: new Date(),
-          salesHistory: [
-            ...item.salesHistory,
-            { date: new Date(), quantity: item.stock - newStock }
-          ]
-        } : item
-      ));
+      // A typed-in count is a correction in the stock ledger
+      await stockAdjustment.mutateAsync({ itemId: item.id, adjustment: { reason: 'correction', count: Math.max(newStock, 0) } });
       toast({
         title: "Stock updated",
-        description: `Stock level updated successfully`,
+        description: `${item.name} now has ${Math.max(newStock, 0)} in stock`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update stock level",
+        description: error instanceof Error ? error.message : "Failed to update stock level",
         variant: "destructive"
       });
     }
   };
 
+  // A fresh batch of the item's reorder quantity is ready to sell
   const handleReorder = async (itemId: string) => {
+    const item = inventory.find(({ id }) => id === itemId);
+    if (!item) return;
+    if (!item.reorderQuantity) {
+      toast({
+        title: "No reorder quantity",
+        description: `Set how many ${item.name} to restock with under Edit Item first`,
+      });
+      return;
+    }
     try {
-      // TODO: Replace with actual API call
-      setInventory(inventory.map(item => 
-        item.id === itemId ? { 
-          ...item, 
-          lastOrdered: new Date(),
-          nextOrderDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000) // 14 days from now
-        } : item
-      ));
+      await stockAdjustment.mutateAsync({
+        itemId,
+        adjustment: { reason: 'baked', quantity: item.reorderQuantity },
+      });
       toast({
-        title: "Reorder placed",
-        description: "Reorder has been placed successfully",
+        title: "Restocked",
+        description: `Added ${item.reorderQuantity} ${item.name} to stock`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to place reorder",
+        description: error instanceof Error ? error.message : "Failed to restock",
         variant: "destructive"
       });
     }
   };
 
-  const exportInventory = () => {
-    // TODO: Implement inventory export functionality
-    toast({
-      title: "Export started",
-      description: "Your inventory report is being generated",
-    });
+  // Expired batches come off first when stock is wasted
+  const handleWriteOff = async (itemId: string, quantity: number) => {
+    const item = inventory.find(({ id }) => id === itemId);
+    if (!item) return;
+    try {
+      await stockAdjustment.mutateAsync({
+        itemId,
+        adjustment: { reason: 'wasted', quantity, note: 'Expired' },
+      });
+      toast({
+        title: "Written off",
+        description: `Recorded ${quantity} expired ${item.name} as wasted`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to write off expired stock",
+        variant: "destructive"
+      });
+    }
   };
 
-  const getStockStatus = (item: InventoryItem) => {
-    if (item.madeToOrder) return 'made-to-order';
-    if (item.stock <= 0) return 'out-of-stock';
-    if (item.stock < item.minimumStock) return 'low-stock';
-    if (item.stock < item.reorderPoint) return 'reorder-point';
-    return 'in-stock';
+  const openEditDialog = (item: MenuItem) => {
+    setSelectedItem(item);
+    setSettings(settingsOf(item));
+    setIsEditDialogOpen(true);
   };
 
-  const getStockStatusColor = (status: string) => {
+  const handleSaveSettings = async () => {
+    if (!selectedItem || !settings) return;
+    try {
+      await inventoryMutation.mutateAsync({ itemId: selectedItem.id, updates: settings });
+      setIsEditDialogOpen(false);
+      toast({
+        title: "Item updated",
+        description: `Saved inventory settings for ${selectedItem.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save inventory settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The items currently shown, after the search and category filters
+  const exportInventory = () => {
+    const fileName = `inventory-${today}.csv`;
+    try {
+      downloadInventoryCsv(toInventoryReportRows(filteredInventory, soldThisWeek, today), fileName);
+      toast({
+        title: "Export ready",
+        description: `${filteredInventory.length} items saved to ${fileName}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export inventory",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getStockStatusColor = (status: StockStatus) => {
     switch (status) {
       case 'in-stock':
         return 'default';
@@ -258,29 +273,16 @@ const InventoryManagement = () => {
     }
   };
 
-  const calculateDailyAverage = (item: InventoryItem) => {
-    const last7Days = item.salesHistory.filter(sale => 
-      sale.date >= subDays(new Date(), 7)
-    );
-    if (last7Days.length === 0) return 0;
-    const total = last7Days.reduce((sum, sale) => sum + sale.quantity, 0);
-    return total / last7Days.length;
-  };
+  const calculateDailyAverage = (item: MenuItem) => (soldThisWeek.get(item.id) ?? 0) / SALES_DAYS;
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-4xl font-serif font-bold text-bakery-brown">Inventory Management</h1>
-        <div className="flex gap-2">
-          <Button variant="outline" onClick={exportInventory} className="flex items-center gap-2">
-            <Download size={16} />
-            Export Report
-          </Button>
-          <Button onClick={() => setIsAddDialogOpen(true)} className="flex items-center gap-2">
-            <Plus size={16} />
-            Add Item
-          </Button>
-        </div>
+        <Button variant="outline" onClick={exportInventory} className="flex items-center gap-2">
+          <Download size={16} />
+          Export Report
+        </Button>
       </div>
 
       {/* Stock Alerts */}
@@ -298,13 +300,23 @@ const InventoryManagement = () => {
                 {stockAlerts.map(alert => (
                   <div key={alert.id} className="flex items-center justify-between">
                     <p>{alert.message}</p>
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleReorder(alert.itemId)}
-                    >
-                      Reorder
-                    </Button>
+                    {alert.writeOff ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleWriteOff(alert.itemId, alert.writeOff!)}
+                      >
+                        Write Off
+                      </Button>
+                    ) : alert.type !== 'expiring' && (
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => handleReorder(alert.itemId)}
+                      >
+                        Reorder
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -318,7 +330,7 @@ const InventoryManagement = () => {
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
             <Input
-              placeholder="Search inventory by name, description, or location..."
+              placeholder="Search inventory by name, description, or supplier..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -351,7 +363,7 @@ const InventoryManagement = () => {
                 <TableHead>Category</TableHead>
                 <TableHead>Stock</TableHead>
                 <TableHead>Status</TableHead>
-                <TableHead>Location</TableHead>
+                <TableHead>Supplier</TableHead>
                 <TableHead>Daily Average</TableHead>
                 <TableHead>Last Updated</TableHead>
                 <TableHead>Actions</TableHead>
@@ -365,22 +377,28 @@ const InventoryManagement = () => {
                   <TableCell>
                     <Input
                       type="number"
-                      value={item.stock}
-                      onChange={(e) => handleStockUpdate(item.id, parseInt(e.target.value))}
+                      min={0}
+                      value={stockDrafts[item.id] ?? (item.madeToOrder ? '' : Math.max(item.stock, 0))}
+                      onChange={(e) => setStockDrafts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      onBlur={(e) => handleStockUpdate(item, parseInt(e.target.value))}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
                       className="w-20"
                       disabled={item.madeToOrder}
                     />
+                    {expiryOf(item, today).expired > 0 && (
+                      <p className="text-xs text-red-600 mt-1">{expiryOf(item, today).expired} expired</p>
+                    )}
                   </TableCell>
                   <TableCell>
-                    <Badge variant={getStockStatusColor(getStockStatus(item))}>
-                      {getStockStatus(item).split('-').map(word => 
+                    <Badge variant={getStockStatusColor(stockStatusOf(item))}>
+                      {stockStatusOf(item).split('-').map(word => 
                         word.charAt(0).toUpperCase() + word.slice(1)
                       ).join(' ')}
                     </Badge>
                   </TableCell>
-                  <TableCell>{item.location || 'N/A'}</TableCell>
-                  <TableCell>{calculateDailyAverage(item).toFixed(1)} {item.unit}/day</TableCell>
-                  <TableCell>{format(item.lastUpdated, 'MMM d, yyyy')}</TableCell>
+                  <TableCell>{item.supplier || 'N/A'}</TableCell>
+                  <TableCell>{calculateDailyAverage(item).toFixed(1)}/day</TableCell>
+                  <TableCell>{format(new Date(item.updatedAt), 'MMM d, yyyy')}</TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <TooltipProvider>
@@ -408,10 +426,7 @@ const InventoryManagement = () => {
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => {
-                                setSelectedItem(item);
-                                setIsEditDialogOpen(true);
-                              }}
+                              onClick={() => openEditDialog(item)}
                             >
                               <Edit size={16} />
                             </Button>
@@ -428,12 +443,13 @@ const InventoryManagement = () => {
                               variant="ghost"
                               size="icon"
                               onClick={() => handleReorder(item.id)}
+                              disabled={item.madeToOrder}
                             >
                               <BarChart2 size={16} />
                             </Button>
                           </TooltipTrigger>
                           <TooltipContent>
-                            <p>Reorder</p>
+                            <p>{item.reorderQuantity ? `Restock ${item.reorderQuantity}` : 'Reorder'}</p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
@@ -454,12 +470,12 @@ const InventoryManagement = () => {
           <CardContent>
             <div className="space-y-2">
               {inventory
-                .filter(item => !item.madeToOrder && item.stock < item.minimumStock)
+                .filter(isLowStock)
                 .map(item => (
                   <div key={item.id} className="flex items-center justify-between">
                     <span>{item.name}</span>
                     <Badge variant="secondary">
-                      {item.stock} {item.unit} remaining
+                      {Math.max(item.stock, 0)} remaining
                     </Badge>
                   </div>
                 ))}
@@ -492,12 +508,12 @@ const InventoryManagement = () => {
           <CardContent>
             <div className="space-y-2">
               {inventory
-                .filter(item => !item.madeToOrder && item.stock < item.reorderPoint)
+                .filter(item => !item.madeToOrder && item.stock < reorderPointOf(item))
                 .map(item => (
                   <div key={item.id} className="flex items-center justify-between">
                     <span>{item.name}</span>
                     <Badge variant="secondary">
-                      Reorder at {item.reorderPoint} {item.unit}
+                      Reorder at {reorderPointOf(item)}
                     </Badge>
                   </div>
                 ))}
@@ -512,14 +528,77 @@ const InventoryManagement = () => {
           <DialogHeader>
             <DialogTitle>Edit Item</DialogTitle>
             <DialogDescription>
-              Update item details and settings
+              Stock thresholds, cost and supplier
             </DialogDescription>
           </DialogHeader>
-          {selectedItem && (
+          {selectedItem && settings && (
             <div className="space-y-4">
-              {/* Add edit form here */}
+              <h3 className="font-semibold">{selectedItem.name}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="minimum-stock">Minimum stock</Label>
+                  <Input
+                    id="minimum-stock"
+                    type="number"
+                    min={0}
+                    value={settings.minimumStock}
+                    onChange={(e) => setSettings({ ...settings, minimumStock: Math.max(parseInt(e.target.value) || 0, 0) })}
+                  />
+                  <p className="text-xs text-muted-foreground">Below this the item shows as low stock.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reorder-point">Reorder point</Label>
+                  <Input
+                    id="reorder-point"
+                    type="number"
+                    min={0}
+                    value={settings.reorderPoint}
+                    onChange={(e) => setSettings({ ...settings, reorderPoint: Math.max(parseInt(e.target.value) || 0, 0) })}
+                  />
+                  <p className="text-xs text-muted-foreground">Below this it's time to bake more.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reorder-quantity">Reorder quantity</Label>
+                  <Input
+                    id="reorder-quantity"
+                    type="number"
+                    min={0}
+                    value={settings.reorderQuantity}
+                    onChange={(e) => setSettings({ ...settings, reorderQuantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                  />
+                  <p className="text-xs text-muted-foreground">How many Restock adds.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cost">Cost per unit</Label>
+                  <Input
+                    id="cost"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={settings.cost}
+                    onChange={(e) => setSettings({ ...settings, cost: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="supplier">Supplier</Label>
+                  <Input
+                    id="supplier"
+                    value={settings.supplier}
+                    onChange={(e) => setSettings({ ...settings, supplier: e.target.value })}
+                  />
+                </div>
+              </div>
             </div>
           )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSettings} disabled={inventoryMutation.isPending}>
+              {inventoryMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
         </DialogContent>
       </Dialog>
 
@@ -529,31 +608,17 @@ const InventoryManagement = () => {
           <DialogHeader>
             <DialogTitle>Item History</DialogTitle>
             <DialogDescription>
-              View sales history and stock changes
+              Stock baked, sold, wasted, given away and corrected
             </DialogDescription>
           </DialogHeader>
           {selectedItem && (
             <div className="space-y-4">
-              {/* Add history view here */}
+              <h3 className="font-semibold">{selectedItem.name}</h3>
+              <StockHistory item={selectedItem} />
             </div>
           )}
         </DialogContent>
       </Dialog>
-
-      {/* Add Item Dialog */}
-      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-        <DialogContent className="max-w-3xl">
-          <DialogHeader>
-            <DialogTitle>Add New Item</DialogTitle>
-            <DialogDescription>
-              Add a new item to inventory
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            {/* Add new item form here */}
-          </div>
-        </DialogContent>
-      </Dialog>
     </div>
   );
 };
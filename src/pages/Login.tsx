@@ -1,40 +1,61 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 
 const LoginPage = () => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const { login } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { login, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/admin';
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (login(password)) {
-      navigate('/admin');
+    setIsSubmitting(true);
+    setError('');
+    const success = await login(username, password);
+    setIsSubmitting(false);
+    if (success) {
+      navigate(redirectTo, { replace: true });
     } else {
-      setError('Invalid password');
+      setError('Invalid username or password');
+      setPassword('');
     }
   };
 
+  if (isAuthenticated) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="container mx-auto px-4 py-12">
       <div className="max-w-md mx-auto">
         <Card>
           <CardHeader>
             <CardTitle className="text-2xl font-serif text-bakery-brown text-center">
-              Admin Login
+              Staff Login
             </CardTitle>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
+                <Input
+                  placeholder="Username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoComplete="username"
+                  className="w-full"
+                />
                 <Input
                   type="password"
-                  placeholder="Enter admin password"
+                  placeholder="Password"
+                  autoComplete="current-password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full"
@@ -46,8 +67,9 @@ const LoginPage = () => {
               <Button 
                 type="submit" 
                 className="w-full bg-bakery-brown hover:bg-bakery-light"
+                disabled={isSubmitting || !username || !password}
               >
-                Login
+                {isSubmitting ? 'Signing in...' : 'Login'}
               </Button>
             </form>
           </CardContent>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { menuItems } from '@/data/menu-items';
 import { 
   Card, 
@@ -45,6 +45,13 @@ import { useMenu } from '@/contexts/MenuContext';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import type { MenuItem } from '@/types/menu';
 import { useOrder } from '@/contexts/OrderContext';
+import type { Order } from '@/types/order';
+import { ApiError } from '@/lib/api';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { describeException, describeOrderDeadline, describePickupWindows, getEarliestPickupDate, getPickupSlots, getUpcomingExceptions, isPickupDateBookable } from '@/lib/pickup-schedule';
+import { fromDateKey, toDateKey } from '@/lib/bakery-time';
+import { customerOrderPath } from '@/lib/order-self-service';
+import type { PickupKind } from '@/types/schedule';
 
 // Constants
 const EMAILJS_PUBLIC_KEY = "jRgg2OkLA0U1pS4WQ";
@@ -62,15 +69,6 @@ const dietaryOptions = [
   { id: "kosher", label: "Kosher", icon: <Star className="mr-1.5 text-purple-600" /> }
 ] as const;
 
-// Pickup time options
-const PICKUP_TIMES = [
-  "9:00 AM", "9:30 AM", "10:00 AM", "10:30 AM", 
-  "11:00 AM", "11:30 AM", "12:00 PM", "12:30 PM",
-  "1:00 PM", "1:30 PM", "2:00 PM", "2:30 PM", 
-  "3:00 PM", "3:30 PM", "4:00 PM", "4:30 PM",
-  "5:00 PM"
-] as const;
-
 // Define form schema
 const orderFormSchema = z.object({
   name: z.string().min(2, { message: 'Name must be at least 2 characters' }).refine(val => val.trim().length > 0, {
@@ -105,6 +103,11 @@ const orderFormSchema = z.object({
 
 type OrderFormValues = z.infer<typeof orderFormSchema>;
 
+const PICKUP_FIELDS = {
+  inStock: { date: 'inStockPickupDate', time: 'inStockPickupTime' },
+  madeToOrder: { date: 'madeToOrderPickupDate', time: 'madeToOrderPickupTime' },
+} as const;
+
 // Initial values for the form
 const defaultValues: Partial<OrderFormValues> = {
   name: '',
@@ -161,48 +164,30 @@ const formatPhoneNumber = (value: string) => {
   return formattedValue;
 };
 
-const getAvailablePickupDates = (hasMadeToOrderItems: boolean) => {
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const currentDay = now.getDay();
-  const currentHour = now.getHours();
-
-  if (hasMadeToOrderItems) {
-    // For made-to-order items, only allow Saturdays
-    const daysUntilNextSaturday = (6 - currentDay + 7) % 7;
-    const upcomingSaturday = new Date(today);
-    upcomingSaturday.setDate(today.getDate() + daysUntilNextSaturday);
-
-    const saturdayAfterNext = new Date(upcomingSaturday);
-    saturdayAfterNext.setDate(upcomingSaturday.getDate() + 7);
-
-    // If past Wednesday or Wednesday after 6 PM
-    if (currentDay > 3 || (currentDay === 3 && currentHour >= 18)) {
-      return saturdayAfterNext;
-    }
-    return upcomingSaturday;
-  }
-
-  // For in-stock items, allow weekdays
-  const minPickupDate = new Date(today);
-  minPickupDate.setDate(today.getDate() + 1);
-  return minPickupDate;
-};
-
 // Add payment instructions component
-const PaymentInstructions = () => (
+const PaymentInstructions = ({ orderNumber, orderPath }: { orderNumber?: string; orderPath?: string }) => (
   <div className="bg-bakery-gold/10 border border-bakery-gold/30 rounded-lg p-6 mb-6">
     <h2 className="text-xl font-serif font-semibold text-bakery-brown mb-4">
       Payment Instructions
     </h2>
     <div className="space-y-4">
+      {orderNumber && (
+        <p className="text-gray-700">
+          Your order number is <span className="font-semibold">{orderNumber}</span>.{' '}
+          <Link to={orderPath ?? `/order/${orderNumber}`} className="text-bakery-brown underline">Track or change your order</Link>
+        </p>
+      )}
       <div>
         <h3 className="font-medium text-bakery-brown mb-2">Zelle Payment</h3>
         <p className="text-gray-700">
           Send payment to: <span className="font-semibold">myjilicioustreats@gmail.com</span>
         </p>
         <p className="text-sm text-gray-600 mt-1">
-          Please include your order number in the memo field when sending payment.
+          {orderNumber ? (
+            <>Please include <span className="font-semibold">{orderNumber}</span> in the memo field when sending payment.</>
+          ) : (
+            'Please include your order number in the memo field when sending payment.'
+          )}
         </p>
       </div>
       <div>
@@ -224,9 +209,11 @@ const OrderPage = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedDietary, setSelectedDietary] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [placedOrder, setPlacedOrder] = useState<Order>();
   const { toast } = useToast();
   const { menuItems, categories } = useMenu();
-  const { addOrder } = useOrder();
+  const { addOrder, pickupLoad } = useOrder();
+  const { schedule } = usePickupSchedule();
 
   // Split cart items into in-stock and made-to-order
   const { inStockItems, madeToOrderItems, cartTotal } = formatOrderDetails(cart, menuItems);
@@ -296,71 +283,39 @@ const OrderPage = () => {
     return matchesCategory && matchesDietary;
   });
 
-  // Determine if order contains made-to-order items
-  const hasMadeToOrderItems = madeToOrderItems.length > 0;
+  const madeToOrderHours = describePickupWindows(schedule.madeToOrder);
+  const madeToOrderDeadline = schedule.madeToOrder.orderDeadline && describeOrderDeadline(schedule.madeToOrder.orderDeadline);
+  const upcomingExceptions = getUpcomingExceptions(schedule);
 
-  // Get available pickup dates based on order type
-  const getAvailablePickupDates = (date: Date) => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    
-    // If order contains made-to-order items
-    if (hasMadeToOrderItems) {
-      // First, ensure we're only allowing Saturdays
-      if (date.getDay() !== 6) {
-        return false;
-      }
-
-      // Get the current day of the week (0 = Sunday, 1 = Monday, etc.)
-      const currentDay = now.getDay();
-      const currentHour = now.getHours();
+  const cartQuantity = (kind: PickupKind) =>
+    (kind === 'inStock' ? inStockItems : madeToOrderItems).reduce((sum, item) => sum + item.quantity, 0);
 
-      // Calculate the date of the upcoming Saturday
-      const daysUntilNextSaturday = (6 - currentDay + 7) % 7;
-      const upcomingSaturday = new Date(today);
-      upcomingSaturday.setDate(today.getDate() + daysUntilNextSaturday);
+  // The calendar works in the customer's local days; the schedule in the bakery's
+  const isPickupDateDisabled = (kind: PickupKind, date: Date) =>
+    !isPickupDateBookable(schedule, pickupLoad, kind, toDateKey(date), cartQuantity(kind));
 
-      // Calculate the date of the Saturday after next
-      const saturdayAfterNext = new Date(upcomingSaturday);
-      saturdayAfterNext.setDate(upcomingSaturday.getDate() + 7);
+  const earliestPickupDate = (kind: PickupKind) => {
+    const date = getEarliestPickupDate(schedule, kind);
+    return date && fromDateKey(date);
+  };
 
-      // If we're past Wednesday (Thursday, Friday, Saturday, Sunday) or it's Wednesday after 6 PM
-      if (currentDay > 3 || (currentDay === 3 && currentHour >= 18)) {
-        // Only allow dates on or after the Saturday after next
-        return date >= saturdayAfterNext;
-      } else {
-        // Before Wednesday 6 PM, allow the upcoming Saturday
-        return date >= upcomingSaturday;
-      }
-    } else {
-      // For in-stock items only
-      const isWeekday = date.getDay() >= 1 && date.getDay() <= 5; // Monday through Friday
-      const minPickupDate = new Date(today);
-      minPickupDate.setDate(today.getDate() + 1); // Next day pickup
-      
-      return isWeekday && date >= minPickupDate;
-    }
+  // Times offered on the chosen pickup date, with booked-up ones marked full
+  const pickupSlotsFor = (kind: PickupKind) => {
+    const date = form.watch(PICKUP_FIELDS[kind].date);
+    return date ? getPickupSlots(schedule, pickupLoad, kind, toDateKey(date)) : [];
   };
 
-  // Get available pickup times based on order type
-  const getAvailablePickupTimes = () => {
-    if (hasMadeToOrderItems) {
-      // For made-to-order items, available all day
-      return [
-        "9:00 AM", "9:30 AM", "10:00 AM", "10:30 AM", 
-        "11:00 AM", "11:30 AM", "12:00 PM", "12:30 PM",
-        "1:00 PM", "1:30 PM", "2:00 PM", "2:30 PM", 
-        "3:00 PM", "3:30 PM", "4:00 PM", "4:30 PM",
-        "5:00 PM", "5:30 PM", "6:00 PM"
-      ];
+  // A new date may not offer the time picked for the old one
+  const handlePickupDateChange = (kind: PickupKind, date?: Date) => {
+    const fields = PICKUP_FIELDS[kind];
+    if (date) {
+      form.setValue(fields.date, date, { shouldValidate: true });
     } else {
-      // For in-stock items, noon to 6 PM
-      return [
-        "12:00 PM", "12:30 PM", "1:00 PM", "1:30 PM",
-        "2:00 PM", "2:30 PM", "3:00 PM", "3:30 PM",
-        "4:00 PM", "4:30 PM", "5:00 PM", "5:30 PM",
-        "6:00 PM"
-      ];
+      form.resetField(fields.date);
+    }
+    const time = form.getValues(fields.time);
+    if (time && (!date || !getPickupSlots(schedule, pickupLoad, kind, toDateKey(date)).some(slot => slot.time === time && !slot.full))) {
+      form.resetField(fields.time);
     }
   };
 
@@ -450,11 +405,32 @@ const OrderPage = () => {
 
       const { inStockItems, madeToOrderItems, cartTotal } = formatOrderDetails(cart, menuItems);
 
+      // Add order to the system first so the emails carry the issued order number
+      const order = await addOrder({
+        customerName: data.name,
+        customerEmail: data.email,
+        customerPhone: data.phone,
+        inStockItems,
+        madeToOrderItems,
+        inStockPickupDate: data.inStockPickupDate && toDateKey(data.inStockPickupDate),
+        inStockPickupTime: data.inStockPickupTime,
+        madeToOrderPickupDate: data.madeToOrderPickupDate && toDateKey(data.madeToOrderPickupDate),
+        madeToOrderPickupTime: data.madeToOrderPickupTime,
+        total: cartTotal,
+        specialInstructions: data.specialInstructions,
+        paymentMethod: 'zelle', // Default to zelle, can be updated at pickup
+        orderType: 'pickup',
+        estimatedCompletionTime: data.inStockPickupDate?.toISOString()
+      });
+      setPlacedOrder(order);
+
       // Prepare email template parameters
       const templateParams = {
         to_email: data.email,
         name: 'Ji\'licious Treats',
         email: BAKERY_EMAIL,
+        order_number: order.id,
+        tracking_link: `${window.location.origin}${customerOrderPath(order)}`,
         customer_name: data.name,
         customer_email: data.email,
         customer_phone: data.phone,
@@ -473,7 +449,7 @@ const OrderPage = () => {
           `${item.name} x${item.quantity} - $${(Number(item.price || 0) * item.quantity).toFixed(2)}`
         ).join('\n') : 'No made-to-order items ordered',
         total_amount: `$${Number(cartTotal || 0).toFixed(2)}`,
-        payment_instructions: `Payment Instructions:\n\n1. Zelle Payment:\nSend payment to: ${BAKERY_EMAIL}\nInclude order number in memo\n\n2. Cash Payment:\nPay with cash when picking up your order\n\nNote: Your order will be confirmed once payment is received or when you arrive for pickup with cash.`
+        payment_instructions: `Payment Instructions:\n\n1. Zelle Payment:\nSend payment to: ${BAKERY_EMAIL}\nInclude order number ${order.id} in memo\n\n2. Cash Payment:\nPay with cash when picking up your order\n\nNote: Your order will be confirmed once payment is received or when you arrive for pickup with cash.`
       };
 
       // Send emails in parallel
@@ -494,25 +470,17 @@ const OrderPage = () => {
         )
       ];
 
-      await Promise.all(emailPromises);
-
-      // Add order to the system
-      await addOrder({
-        customerName: data.name,
-        customerEmail: data.email,
-        customerPhone: data.phone,
-        inStockItems,
-        madeToOrderItems,
-        inStockPickupDate: data.inStockPickupDate,
-        inStockPickupTime: data.inStockPickupTime,
-        madeToOrderPickupDate: data.madeToOrderPickupDate,
-        madeToOrderPickupTime: data.madeToOrderPickupTime,
-        total: cartTotal,
-        specialInstructions: data.specialInstructions,
-        paymentMethod: 'zelle', // Default to zelle, can be updated at pickup
-        orderType: 'pickup',
-        estimatedCompletionTime: data.inStockPickupDate ? new Date(data.inStockPickupDate) : undefined
-      });
+      try {
+        await Promise.all(emailPromises);
+      } catch (emailError) {
+        // The order is already saved, so only warn that the confirmation did not go out
+        console.error('Error sending order emails:', emailError);
+        toast({
+          title: "Confirmation email not sent",
+          description: `Your order ${order.id} was placed, but we couldn't send the confirmation email. Please note your order number for payment.`,
+          variant: "destructive"
+        });
+      }
 
       // Create pickup message
       const pickupMessage = [
@@ -524,7 +492,7 @@ const OrderPage = () => {
 
       toast({
         title: "Order received!",
-        description: `Thank you for your order. ${pickupMessage}. Please check your email for payment instructions.`,
+        description: `Thank you for your order ${order.id}. ${pickupMessage}. Please check your email for payment instructions.`,
       });
 
       // Reset form and cart
@@ -533,9 +501,14 @@ const OrderPage = () => {
 
     } catch (error) {
       console.error('Error submitting order:', error);
+      // Stock or the chosen pickup time ran out while ordering; the server says which
+      const isConflict = error instanceof ApiError && error.status === 409;
+      const soldOut = isConflict && !!(error.data as { unavailable?: unknown } | undefined)?.unavailable;
       toast({
-        title: "Error",
-        description: "Failed to submit order. Please try again.",
+        title: soldOut ? "Some items sold out" : isConflict ? "Pickup time unavailable" : "Error",
+        description: isConflict ? (
+          <span className="whitespace-pre-line">{error.message}</span>
+        ) : "Failed to submit order. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -553,7 +526,7 @@ const OrderPage = () => {
       </p>
 
       {/* Payment Instructions */}
-      <PaymentInstructions />
+      <PaymentInstructions orderNumber={placedOrder?.id} orderPath={placedOrder && customerOrderPath(placedOrder)} />
 
       {/* Order Deadline Notice */}
       <div className="max-w-2xl mx-auto mb-12">
@@ -562,9 +535,26 @@ const OrderPage = () => {
             Important Order Information
           </h2>
           <p className="text-lg text-gray-700 font-sans">
-            Orders close Wednesday by 6pm for Saturday pickup.
+            {madeToOrderDeadline
+              ? `Made-to-order items close ${madeToOrderDeadline} for pickup ${madeToOrderHours}.`
+              : `Made-to-order items can be picked up ${madeToOrderHours}.`}
           </p>
         </div>
+        {upcomingExceptions.length > 0 && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+            <h2 className="text-xl font-serif font-semibold text-bakery-brown mb-2">
+              Upcoming Schedule Changes
+            </h2>
+            <ul className="text-lg text-gray-700 font-sans space-y-1">
+              {upcomingExceptions.map(exception => (
+                <li key={exception.date}>
+                  {format(fromDateKey(exception.date), 'EEEE, MMMM d')}: {describeException(exception)}
+                  {exception.note && ` (${exception.note})`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -758,7 +748,7 @@ const OrderPage = () => {
                                   variant="outline" 
                                   size="sm"
                                   className="border-bakery-brown text-bakery-brown hover:bg-bakery-brown hover:text-white font-sans text-lg"
-                                  disabled={!item.madeToOrder && item.stock === 0}
+                                  disabled={!item.madeToOrder && item.stock <= 0}
                                 >
                                   Add
                                 </Button>
@@ -893,8 +883,11 @@ const OrderPage = () => {
                 <CardTitle className="font-serif">Customer Information</CardTitle>
                 <CardDescription>
                   <div className="font-sans text-lg">
-                    <p>In-stock items can be picked up Monday-Friday, 9 AM-5 PM.</p>
-                    <p>Made to Order items can be ordered before Wednesday 6pm and can be picked up on Saturdays between 9AM-5PM.</p>
+                    <p>In-stock items can be picked up {describePickupWindows(schedule.inStock)}.</p>
+                    <p>
+                      Made to Order items {madeToOrderDeadline && `can be ordered before ${madeToOrderDeadline} and `}
+                      can be picked up {madeToOrderHours}.
+                    </p>
                   </div>
                 </CardDescription>
               </CardHeader>
@@ -992,18 +985,9 @@ const OrderPage = () => {
                                     <Calendar
                                       mode="single"
                                       selected={field.value}
-                                      onSelect={field.onChange}
-                                      fromDate={(() => {
-                                        const now = new Date();
-                                        const minDate = new Date(now);
-                                        minDate.setDate(now.getDate() + 1); // Next day pickup
-                                        return minDate;
-                                      })()}
-                                      disabled={(date) => {
-                                        if (!(date instanceof Date)) return true;
-                                        // Disable weekends (Saturday = 6, Sunday = 0)
-                                        return date.getDay() === 0 || date.getDay() === 6;
-                                      }}
+                                      onSelect={(date) => handlePickupDateChange('inStock', date)}
+                                      fromDate={earliestPickupDate('inStock')}
+                                      disabled={(date) => isPickupDateDisabled('inStock', date)}
                                       initialFocus
                                     />
                                   </PopoverContent>
@@ -1019,16 +1003,16 @@ const OrderPage = () => {
                             render={({ field }) => (
                               <FormItem>
                                 <FormLabel className="font-sans text-lg">Pickup Time <span className="text-red-500">*</span></FormLabel>
-                                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <Select onValueChange={field.onChange} value={field.value ?? ''} disabled={!form.watch('inStockPickupDate')}>
                                   <FormControl>
                                     <SelectTrigger className="font-sans text-lg">
-                                      <SelectValue placeholder="Select a pickup time" />
+                                      <SelectValue placeholder={form.watch('inStockPickupDate') ? "Select a pickup time" : "Select a date first"} />
                                     </SelectTrigger>
                                   </FormControl>
                                   <SelectContent>
-                                    {PICKUP_TIMES.map((time) => (
-                                      <SelectItem key={time} value={time} className="font-sans text-lg">
-                                        {time}
+                                    {pickupSlotsFor('inStock').map(({ time, full }) => (
+                                      <SelectItem key={time} value={time} disabled={full} className="font-sans text-lg">
+                                        {full ? `${time} (full)` : time}
                                       </SelectItem>
                                     ))}
                                   </SelectContent>
@@ -1074,20 +1058,9 @@ const OrderPage = () => {
                                     <Calendar
                                       mode="single"
                                       selected={field.value}
-                                      onSelect={field.onChange}
-                                      fromDate={(() => {
-                                        const now = new Date();
-                                        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-                                        const currentDay = now.getDay();
-                                        const daysUntilNextSaturday = (6 - currentDay + 7) % 7;
-                                        const upcomingSaturday = new Date(today);
-                                        upcomingSaturday.setDate(today.getDate() + daysUntilNextSaturday);
-                                        return upcomingSaturday;
-                                      })()}
-                                      disabled={(date) => {
-                                        if (!(date instanceof Date)) return true;
-                                        return date.getDay() !== 6; // Only allow Saturdays
-                                      }}
+                                      onSelect={(date) => handlePickupDateChange('madeToOrder', date)}
+                                      fromDate={earliestPickupDate('madeToOrder')}
+                                      disabled={(date) => isPickupDateDisabled('madeToOrder', date)}
                                       initialFocus
                                     />
                                   </PopoverContent>
@@ -1103,16 +1076,16 @@ const OrderPage = () => {
                             render={({ field }) => (
                               <FormItem>
                                 <FormLabel className="font-sans text-lg">Pickup Time <span className="text-red-500">*</span></FormLabel>
-                                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <Select onValueChange={field.onChange} value={field.value ?? ''} disabled={!form.watch('madeToOrderPickupDate')}>
                                   <FormControl>
                                     <SelectTrigger className="font-sans text-lg">
-                                      <SelectValue placeholder="Select a pickup time" />
+                                      <SelectValue placeholder={form.watch('madeToOrderPickupDate') ? "Select a pickup time" : "Select a date first"} />
                                     </SelectTrigger>
                                   </FormControl>
                                   <SelectContent>
-                                    {PICKUP_TIMES.map((time) => (
-                                      <SelectItem key={time} value={time} className="font-sans text-lg">
-                                        {time}
+                                    {pickupSlotsFor('madeToOrder').map(({ time, full }) => (
+                                      <SelectItem key={time} value={time} disabled={full} className="font-sans text-lg">
+                                        {full ? `${time} (full)` : time}
                                       </SelectItem>
                                     ))}
                                   </SelectContent>
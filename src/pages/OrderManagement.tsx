@@ -5,10 +5,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { format, isToday, isTomorrow, isPast, isFuture, isValid } from 'date-fns';
+import { format, isValid } from 'date-fns';
 import { Calendar, Search, Filter, Download, Printer, Eye, MessageSquare, Clock, AlertCircle, Trash2, ChevronLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useOrder } from '@/contexts/OrderContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { canSetOrderStatus } from '@/lib/permissions';
+import { ORDER_STATUS_TRANSITIONS, statusTransitionProblem } from '@/lib/order-status';
+import type { Order } from '@/types/order';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { OrderNotificationLog } from '@/components/OrderNotificationLog';
+import { OrderTimeline } from '@/components/OrderTimeline';
+import { addDaysToKey, bakeryDateKey, fromDateKey, isDateKey } from '@/lib/bakery-time';
+import { downloadCsv, downloadXlsx, toOrderLineRows } from '@/lib/order-export';
 import {
   Dialog,
   DialogContent,
@@ -23,6 +32,12 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Textarea } from "@/components/ui/textarea";
 import {
   AlertDialog,
@@ -36,41 +51,18 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useNavigate } from "react-router-dom";
 
-// Types
-interface Order {
-  id: string;
-  customerName: string;
-  customerEmail: string;
-  customerPhone: string;
-  inStockItems: OrderItem[];
-  madeToOrderItems: OrderItem[];
-  inStockPickupDate?: Date;
-  inStockPickupTime?: string;
-  madeToOrderPickupDate?: Date;
-  madeToOrderPickupTime?: string;
-  status: 'pending' | 'completed' | 'cancelled' | 'preparing' | 'ready';
-  total: number;
-  createdAt: Date;
-  specialInstructions?: string;
-  notes?: string;
-  paymentStatus: 'paid' | 'pending' | 'refunded';
-  paymentMethod?: 'cash' | 'zelle';
-  orderType: 'pickup' | 'delivery';
-  deliveryAddress?: string;
-  deliveryInstructions?: string;
-  estimatedCompletionTime?: Date;
-  actualCompletionTime?: Date;
-  priority: 'normal' | 'high' | 'urgent';
-}
+const ORDER_STATUS_OPTIONS: { value: Order['status']; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'preparing', label: 'Preparing' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
 
-interface OrderItem {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-  specialInstructions?: string;
-  customizations?: string[];
-}
+// The current status plus the ones the order can move to next
+const statusOptionsFor = (order: Order) =>
+  ORDER_STATUS_OPTIONS.filter(option =>
+    option.value === order.status || ORDER_STATUS_TRANSITIONS[order.status].includes(option.value));
 
 const OrderManagement = () => {
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
@@ -82,19 +74,29 @@ const OrderManagement = () => {
   const [note, setNote] = useState('');
   const [orderToDelete, setOrderToDelete] = useState<string | null>(null);
   const { toast } = useToast();
-  const { orders, updateOrderStatus, updateOrderNote, deleteOrder } = useOrder();
+  const { orders, updateOrderStatus, updateOrderNote, updatePaymentStatus, deleteOrder } = useOrder();
+  const { user, hasPermission } = useAuth();
+  const { schedule } = usePickupSchedule();
   const navigate = useNavigate();
 
-  const formatDate = (date: Date | undefined | string) => {
+  const formatDate = (date: string | undefined) => {
     if (!date) return 'Not set';
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
+    const dateObj = new Date(date);
     return isValid(dateObj) ? format(dateObj, 'MMM d, yyyy h:mm a') : 'Invalid date';
   };
 
-  const formatPickupDate = (date: Date | undefined | string) => {
+  const formatPickupDate = (date: string | undefined) => {
     if (!date) return 'Not set';
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
-    return isValid(dateObj) ? format(dateObj, 'MMM d, yyyy') : 'Invalid date';
+    return isDateKey(date) ? format(fromDateKey(date), 'MMM d, yyyy') : 'Invalid date';
+  };
+
+  // Pickup days are compared against the bakery's calendar, not the viewer's
+  const today = bakeryDateKey(schedule.timezone);
+  const pickupDateFilters: Record<string, (date: string) => boolean> = {
+    today: date => date === today,
+    tomorrow: date => date === addDaysToKey(today, 1),
+    past: date => date < today,
+    future: date => date > today,
   };
 
   const filteredOrders = orders.filter(order => {
@@ -105,24 +107,9 @@ const OrderManagement = () => {
       order.customerPhone.includes(searchQuery) ||
       order.id.includes(searchQuery);
     
-    let matchesDate = true;
-    if (selectedDate === 'today') {
-      const inStockDate = order.inStockPickupDate ? new Date(order.inStockPickupDate) : null;
-      const madeToOrderDate = order.madeToOrderPickupDate ? new Date(order.madeToOrderPickupDate) : null;
-      matchesDate = (inStockDate && isToday(inStockDate)) || (madeToOrderDate && isToday(madeToOrderDate));
-    } else if (selectedDate === 'tomorrow') {
-      const inStockDate = order.inStockPickupDate ? new Date(order.inStockPickupDate) : null;
-      const madeToOrderDate = order.madeToOrderPickupDate ? new Date(order.madeToOrderPickupDate) : null;
-      matchesDate = (inStockDate && isTomorrow(inStockDate)) || (madeToOrderDate && isTomorrow(madeToOrderDate));
-    } else if (selectedDate === 'past') {
-      const inStockDate = order.inStockPickupDate ? new Date(order.inStockPickupDate) : null;
-      const madeToOrderDate = order.madeToOrderPickupDate ? new Date(order.madeToOrderPickupDate) : null;
-      matchesDate = (inStockDate && isPast(inStockDate)) || (madeToOrderDate && isPast(madeToOrderDate));
-    } else if (selectedDate === 'future') {
-      const inStockDate = order.inStockPickupDate ? new Date(order.inStockPickupDate) : null;
-      const madeToOrderDate = order.madeToOrderPickupDate ? new Date(order.madeToOrderPickupDate) : null;
-      matchesDate = (inStockDate && isFuture(inStockDate)) || (madeToOrderDate && isFuture(madeToOrderDate));
-    }
+    const matchesDateFilter = pickupDateFilters[selectedDate];
+    const matchesDate = !matchesDateFilter || [order.inStockPickupDate, order.madeToOrderPickupDate]
+      .some(date => date && matchesDateFilter(date));
 
     return matchesStatus && matchesSearch && matchesDate;
   });
@@ -133,7 +120,7 @@ const OrderManagement = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update order status",
+        description: error instanceof Error ? error.message : "Failed to update order status",
         variant: "destructive"
       });
     }
@@ -158,24 +145,18 @@ const OrderManagement = () => {
       const order = orders.find(o => o.id === orderId);
       if (!order) return;
 
-      if (paymentMethod === 'refunded') {
-        await updateOrderStatus(orderId, 'cancelled');
-        await updateOrderNote(orderId, `Payment was refunded - Previous payment was made via ${order.paymentMethod}`);
-      } else {
-        await updateOrderStatus(orderId, 'preparing');
-        await updateOrderNote(orderId, `Payment received via ${paymentMethod}`);
-      }
-      
-      toast({
-        title: "Payment updated",
-        description: paymentMethod === 'refunded' 
-          ? `Order #${orderId} has been refunded`
-          : `Order #${orderId} payment method set to ${paymentMethod}`,
+      // A refund cancels the order and a payment starts a pending one, where the status allows it
+      const nextStatus = paymentMethod === 'refunded' ? 'cancelled' : 'preparing';
+      await updatePaymentStatus(orderId, paymentMethod, {
+        status: ORDER_STATUS_TRANSITIONS[order.status].includes(nextStatus) ? nextStatus : undefined,
+        notes: paymentMethod === 'refunded'
+          ? `Payment was refunded - Previous payment was made via ${order.paymentMethod}`
+          : `Payment received via ${paymentMethod}`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update payment status",
+        description: error instanceof Error ? error.message : "Failed to update payment status",
         variant: "destructive"
       });
     }
@@ -194,12 +175,34 @@ const OrderManagement = () => {
     }
   };
 
-  const exportOrders = () => {
-    // TODO: Implement order export functionality
-    toast({
-      title: "Export started",
-      description: "Your orders are being exported",
-    });
+  // Exports what's on screen, one row per order line
+  const exportOrders = async (fileType: 'csv' | 'xlsx') => {
+    if (filteredOrders.length === 0) {
+      toast({
+        title: "Nothing to export",
+        description: "No orders match the current filters",
+      });
+      return;
+    }
+    const rows = toOrderLineRows(filteredOrders, schedule.timezone);
+    const fileName = `orders-${today}.${fileType}`;
+    try {
+      if (fileType === 'csv') {
+        downloadCsv(rows, fileName);
+      } else {
+        await downloadXlsx(rows, fileName);
+      }
+      toast({
+        title: "Export ready",
+        description: `${filteredOrders.length} orders saved to ${fileName}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export orders",
+        variant: "destructive"
+      });
+    }
   };
 
   const getStatusColor = (status: Order['status']) => {
@@ -294,10 +297,18 @@ const OrderManagement = () => {
           </Select>
         </div>
         <div className="flex gap-4">
-          <Button variant="outline" onClick={exportOrders}>
-            <Download className="mr-2 h-4 w-4" />
-            Export
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportOrders('csv')}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportOrders('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button variant="outline">
             <Printer className="mr-2 h-4 w-4" />
             Print
@@ -354,43 +365,47 @@ const OrderManagement = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => {
-                            setSelectedOrder(order);
-                            setNote(order.notes || '');
-                            setIsNoteDialogOpen(true);
-                          }}
-                        >
-                          <MessageSquare className="h-4 w-4" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Add Note</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="destructive"
-                          size="icon"
-                          onClick={() => setOrderToDelete(order.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Delete Order</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                  {order.paymentStatus === 'pending' && (
+                  {hasPermission('orders:notes') && (
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => {
+                              setSelectedOrder(order);
+                              setNote(order.notes || '');
+                              setIsNoteDialogOpen(true);
+                            }}
+                          >
+                            <MessageSquare className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Add Note</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )}
+                  {hasPermission('orders:delete') && (
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => setOrderToDelete(order.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Delete Order</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )}
+                  {order.paymentStatus === 'pending' && hasPermission('payments:record') && (
                     <Select
                       value={order.paymentMethod}
                       onValueChange={(value: 'zelle' | 'cash' | 'refunded') => handlePaymentStatusChange(order.id, value)}
@@ -401,23 +416,34 @@ const OrderManagement = () => {
                       <SelectContent>
                         <SelectItem value="zelle">Zelle</SelectItem>
                         <SelectItem value="cash">Cash</SelectItem>
-                        <SelectItem value="refunded" className="text-red-600">Refund</SelectItem>
+                        {hasPermission('payments:refund') && (
+                          <SelectItem value="refunded" className="text-red-600">Refund</SelectItem>
+                        )}
                       </SelectContent>
                     </Select>
                   )}
                   <Select
                     value={order.status}
                     onValueChange={(value: Order['status']) => handleStatusChange(order.id, value)}
+                    disabled={!hasPermission('orders:status') || ORDER_STATUS_TRANSITIONS[order.status].length === 0}
                   >
                     <SelectTrigger className="w-[120px]">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="preparing">Preparing</SelectItem>
-                      <SelectItem value="ready">Ready</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                      {statusOptionsFor(order).map(option => {
+                        const problem = statusTransitionProblem(order, option.value);
+                        return (
+                          <SelectItem
+                            key={option.value}
+                            value={option.value}
+                            disabled={!!problem || !canSetOrderStatus(user?.role, option.value)}
+                          >
+                            {option.label}
+                            {problem && <span className="block text-xs text-muted-foreground">{problem}</span>}
+                          </SelectItem>
+                        );
+                      })}
                     </SelectContent>
                   </Select>
                 </div>
@@ -518,7 +544,9 @@ const OrderManagement = () => {
           </DialogHeader>
           {selectedOrder && (
             <div className="space-y-4">
-              {/* Add detailed order view here */}
+              {/* The list refreshes after every change; the snapshot taken on open does not */}
+              <OrderTimeline order={orders.find(order => order.id === selectedOrder.id) ?? selectedOrder} />
+              <OrderNotificationLog orderId={selectedOrder.id} />
             </div>
           )}
         </DialogContent>
@@ -530,7 +558,7 @@ const OrderManagement = () => {
           <DialogHeader>
             <DialogTitle>Add Note to Order #{selectedOrder?.id}</DialogTitle>
             <DialogDescription>
-              Add a note or update existing notes for this order
+              Update the note for this order. Earlier notes stay in its history.
             </DialogDescription>
           </DialogHeader>
           <Textarea
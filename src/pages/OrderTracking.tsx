@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { CalendarClock, Loader2, Search } from 'lucide-react';
+import { ManageOrderPanel } from '@/components/ManageOrderPanel';
+import * as orderApi from '@/lib/order-api';
+import { fromDateKey } from '@/lib/bakery-time';
+import type { CustomerOrderView, OrderItem, OrderStatus, PaymentStatus } from '@/types/order';
+
+// How each status reads to a customer
+const STATUS_LABELS: Record<OrderStatus, { label: string; description: string }> = {
+  pending: { label: 'Received', description: "We've got your order and will start on it soon." },
+  preparing: { label: 'Being prepared', description: "We're baking your treats." },
+  ready: { label: 'Ready for pickup', description: 'Come by at your pickup time.' },
+  completed: { label: 'Picked up', description: 'Thanks for ordering with us. Enjoy!' },
+  cancelled: { label: 'Cancelled', description: 'This order was cancelled. Contact us if that is a surprise.' },
+};
+
+const PAYMENT_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  refunded: 'Refunded',
+};
+
+const formatPickup = (date?: string, time?: string) =>
+  date && time ? `${format(fromDateKey(date), 'EEEE, MMMM d, yyyy')} at ${time}` : 'Not set';
+
+const ItemsSection = ({ title, items, pickup }: { title: string; items: OrderItem[]; pickup: string }) => (
+  <div>
+    <h3 className="font-semibold text-bakery-brown mb-2">{title}</h3>
+    <ul className="space-y-1">
+      {items.map(item => (
+        <li key={item.id} className="flex justify-between text-gray-700">
+          <span>{item.quantity} x {item.name}</span>
+          <span>${(item.price * item.quantity).toFixed(2)}</span>
+        </li>
+      ))}
+    </ul>
+    <p className="flex items-center gap-2 text-sm text-gray-600 mt-2">
+      <CalendarClock className="h-4 w-4" />
+      Pickup: {pickup}
+    </p>
+  </div>
+);
+
+const OrderDetails = ({ order }: { order: CustomerOrderView }) => {
+  const status = STATUS_LABELS[order.status];
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 font-serif text-bakery-brown">
+          Order {order.id}
+          <Badge variant={order.status === 'cancelled' ? 'destructive' : 'default'}>{status.label}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {status.description} Placed {format(new Date(order.createdAt), 'MMMM d, yyyy h:mm a')}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {order.inStockItems.length > 0 && (
+          <ItemsSection
+            title="In-Stock Items"
+            items={order.inStockItems}
+            pickup={formatPickup(order.inStockPickupDate, order.inStockPickupTime)}
+          />
+        )}
+        {order.madeToOrderItems.length > 0 && (
+          <ItemsSection
+            title="Made-to-Order Items"
+            items={order.madeToOrderItems}
+            pickup={formatPickup(order.madeToOrderPickupDate, order.madeToOrderPickupTime)}
+          />
+        )}
+        <div className="border-t pt-4 space-y-1">
+          <p className="flex justify-between font-semibold">
+            <span>Total</span>
+            <span>${order.total.toFixed(2)}</span>
+          </p>
+          <p className="flex justify-between text-gray-700">
+            <span>Payment</span>
+            <span>
+              {PAYMENT_LABELS[order.paymentStatus]}
+              {order.paymentStatus === 'paid' && order.paymentMethod && ` (${order.paymentMethod})`}
+            </span>
+          </p>
+        </div>
+        {order.specialInstructions && (
+          <div>
+            <h3 className="font-semibold text-bakery-brown mb-1">Your Instructions</h3>
+            <p className="text-gray-700">{order.specialInstructions}</p>
+          </div>
+        )}
+        {order.notes && (
+          <div className="bg-bakery-gold/10 border border-bakery-gold/30 rounded-lg p-4">
+            <h3 className="font-semibold text-bakery-brown mb-1">Notes from the Bakery</h3>
+            <p className="text-gray-700">{order.notes}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Opened from the manage link in the confirmation email: no lookup needed,
+// and the order can be changed until it's locked
+const ManagedOrder = ({ id, token }: { id: string; token: string }) => {
+  const { data: order, isLoading, error } = useQuery({
+    queryKey: orderApi.selfServiceOrderQueryKey(id),
+    queryFn: () => orderApi.fetchSelfServiceOrder(id, token),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-center text-gray-600">Loading your order...</p>;
+  }
+  if (error || !order) {
+    return <p className="text-red-500 text-center">{error?.message ?? 'Order not found'}</p>;
+  }
+  return (
+    <>
+      <OrderDetails order={order} />
+      {order.lockedReason ? (
+        <p className="text-center text-gray-600">
+          {order.lockedReason} To change it, please call us at 248-403-0780.
+        </p>
+      ) : (
+        <ManageOrderPanel order={order} token={token} />
+      )}
+    </>
+  );
+};
+
+// Anyone with the order number proves it's theirs with their email or phone
+const LookupOrder = ({ id }: { id: string }) => {
+  const [contact, setContact] = useState('');
+
+  const lookup = useMutation({
+    mutationFn: () => orderApi.lookupOrder(id, contact),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    lookup.mutate();
+  };
+
+  return (
+    <>
+      <p className="text-gray-600 text-center">
+        Enter the email or phone number you ordered with to see order <span className="font-semibold">{id}</span>.
+      </p>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          placeholder="Email or phone (xxx-xxx-xxxx)"
+          value={contact}
+          onChange={(e) => setContact(e.target.value)}
+          autoComplete="email"
+        />
+        <Button
+          type="submit"
+          className="bg-bakery-brown hover:bg-bakery-light"
+          disabled={lookup.isPending || !contact.trim()}
+        >
+          {lookup.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          <span className="ml-2">Find Order</span>
+        </Button>
+      </form>
+
+      {lookup.error && (
+        <p className="text-red-500 text-center">{lookup.error.message}</p>
+      )}
+      {lookup.data && <OrderDetails order={lookup.data} />}
+    </>
+  );
+};
+
+const OrderTrackingPage = () => {
+  const { id = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="max-w-2xl mx-auto space-y-8">
+        <h1 className="text-4xl font-serif font-bold text-bakery-brown text-center">Track Your Order</h1>
+        {token ? <ManagedOrder id={id} token={token} /> : <LookupOrder id={id} />}
+      </div>
+    </div>
+  );
+};
+
+export default OrderTrackingPage;
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, FileDown, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrder } from '@/contexts/OrderContext';
+import { useMenu } from '@/contexts/MenuContext';
+import { usePickupSchedule } from '@/hooks/use-pickup-schedule';
+import { BuyList } from '@/components/BuyList';
+import { bakeryDateKey } from '@/lib/bakery-time';
+import {
+  buildProductionSheet,
+  describeProductionDate,
+  downloadProductionSheetPdf,
+  upcomingProductionDates,
+} from '@/lib/production-sheet';
+
+// What the kitchen bakes for one made-to-order pickup day
+const ProductionSheet = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const { orders } = useOrder();
+  const { menuItems } = useMenu();
+  const { schedule } = usePickupSchedule();
+  const dates = upcomingProductionDates(orders, bakeryDateKey(schedule.timezone));
+  const [selectedDate, setSelectedDate] = useState<string>();
+  const date = selectedDate ?? dates[0];
+  const sheet = date ? buildProductionSheet(orders, menuItems, date) : undefined;
+
+  const handleDownload = async () => {
+    if (!sheet) return;
+    try {
+      await downloadProductionSheetPdf(sheet, `production-${sheet.date}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create the PDF",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 print:p-0">
+      <div className="flex items-center gap-4 mb-8 print:hidden">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => navigate('/admin')}
+          className="shrink-0"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-4xl font-serif font-bold text-bakery-brown">Production Sheet</h1>
+          <p className="text-muted-foreground">Made-to-order items to bake for each pickup day</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4 mb-8 justify-between print:hidden">
+        <Select value={date ?? ''} onValueChange={setSelectedDate} disabled={dates.length === 0}>
+          <SelectTrigger className="w-full md:w-[280px]">
+            <SelectValue placeholder="No upcoming pickups" />
+          </SelectTrigger>
+          <SelectContent>
+            {dates.map(option => (
+              <SelectItem key={option} value={option}>{describeProductionDate(option)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-4">
+          <Button variant="outline" onClick={() => window.print()} disabled={!sheet}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={!sheet}>
+            <FileDown className="mr-2 h-4 w-4" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {!sheet ? (
+        <p className="text-center text-muted-foreground">No made-to-order pickups coming up.</p>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <h2 className="text-2xl font-serif font-bold text-bakery-brown">{describeProductionDate(sheet.date)}</h2>
+            <p className="text-muted-foreground">{sheet.orderCount} orders. Quantities are rounded up to whole batches.</p>
+          </div>
+
+          {sheet.categories.map(({ category, lines }) => (
+            <Card key={category} className="break-inside-avoid print:shadow-none">
+              <CardHeader>
+                <CardTitle>{category}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Batch Size</TableHead>
+                      <TableHead className="text-right">Batches</TableHead>
+                      <TableHead className="text-right">To Bake</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map(line => (
+                      <TableRow key={line.id}>
+                        <TableCell className="font-medium">{line.name}</TableCell>
+                        <TableCell className="text-right">{line.ordered}</TableCell>
+                        <TableCell className="text-right">{line.batchSize}</TableCell>
+                        <TableCell className="text-right">{line.batches}</TableCell>
+                        <TableCell className="text-right font-semibold">{line.toBake}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+
+          {sheet.notes.length > 0 && (
+            <Card className="break-inside-avoid print:shadow-none">
+              <CardHeader>
+                <CardTitle>Special Instructions</CardTitle>
+                <CardDescription>In pickup order</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {sheet.notes.map(note => (
+                  <div key={note.orderId} className="border-b last:border-b-0 pb-4 last:pb-0">
+                    <p className="font-semibold">
+                      {note.pickupTime ?? 'No time'} · {note.customerName} ({note.orderId})
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {note.items.map(item => `${item.quantity} x ${item.name}`).join(', ')}
+                    </p>
+                    <p className="mt-1">{note.instructions}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {hasPermission('inventory:manage') && (
+        <div className="mt-6">
+          <BuyList />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductionSheet;
@@ -0,0 +1,29 @@
+import type { MenuItem } from '../data/types';
+
+// A plain in-stock menu item for unit tests; override what the test is about
+export function menuItem(overrides: Partial<MenuItem> = {}): MenuItem {
+  return {
+    id: 'cookie',
+    name: 'Chocolate Chip Cookie',
+    category: 'cookies',
+    description: 'Brown butter and dark chocolate',
+    price: 3.5,
+    image: '',
+    dietaryInfo: { vegan: false, glutenFree: false, nutFree: true, dairyFree: false, halal: false, kosher: false },
+    allergens: {
+      wheat: true, nuts: false, coconut: false, milk: true, eggs: true, soy: false,
+      sesame: false, shellfish: false, fish: false, peanuts: false, treeNuts: false, sulfites: false,
+    },
+    available: true,
+    stock: 10,
+    madeToOrder: false,
+    isSpecial: false,
+    bestSeller: false,
+    seasonal: false,
+    active: true,
+    createdAt: '2026-10-01T12:00:00.000Z',
+    updatedAt: '2026-10-01T12:00:00.000Z',
+    version: 1,
+    ...overrides,
+  };
+}
@@ -0,0 +1,40 @@
+// Shared staff/session contract between the admin UI and the API.
+
+export type StaffRole = 'owner' | 'baker' | 'front-counter';
+
+export type Permission =
+  | 'orders:view'
+  | 'orders:status'
+  | 'orders:notes'
+  | 'orders:delete'
+  | 'payments:record'
+  | 'payments:refund'
+  | 'menu:edit'
+  | 'menu:prices'
+  | 'menu:manage'
+  | 'inventory:manage'
+  | 'settings:manage'
+  | 'staff:manage';
+
+export interface StaffUser {
+  id: string;
+  username: string;
+  name: string;
+  role: StaffRole;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface SessionInfo {
+  expiresAt: string;
+  user: StaffUser;
+}
+
+export interface NewStaffUser {
+  username: string;
+  name: string;
+  role: StaffRole;
+  password: string;
+}
+
+export type StaffUserUpdate = Partial<Pick<StaffUser, 'name' | 'role' | 'active'>> & { password?: string };
@@ -0,0 +1,35 @@
+// Shared ingredient and recipe contract between the admin UI and the API.
+
+export type IngredientUnit = 'g' | 'kg' | 'oz' | 'lb' | 'ml' | 'l' | 'each';
+
+// Stock on hand is counted in the unit the ingredient is bought in
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  onHand: number;
+}
+
+// A recipe line may use any unit of the same kind as its ingredient, e.g. g of flour bought by the lb
+export interface RecipeLine {
+  ingredientId: string;
+  quantity: number;
+  unit: IngredientUnit;
+}
+
+// What goes into one batch of a menu item, keyed by menu item id
+export type Recipes = Record<string, RecipeLine[]>;
+
+export interface IngredientCatalog {
+  ingredients: Ingredient[];
+  recipes: Recipes;
+}
+
+// One ingredient on the buy list, in the ingredient's own unit
+export interface IngredientNeed {
+  ingredient: Ingredient;
+  needed: number;
+  toBuy: number;
+  // Names of the menu items that use it
+  usedBy: string[];
+}
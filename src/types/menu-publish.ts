@@ -0,0 +1,35 @@
+// Shared menu publishing contract between the admin and the menu API.
+import type { MenuItem } from '../data/types';
+import type { MenuItemChange } from '../lib/menu-diff';
+
+export interface MenuPublishRequest {
+  items: MenuItem[];
+  // Server version of each item the editor started from, keyed by item id
+  baseVersions: Record<string, number>;
+  // Stock of each edited item when the editor started, so only counts the
+  // editor changed replace the live stock
+  baseStock: Record<string, number>;
+}
+
+// An item changed both by this editor and on the server since baseVersions.
+// null means the item was deleted on that side.
+export interface MenuConflict {
+  id: string;
+  mine: MenuItem | null;
+  theirs: MenuItem | null;
+}
+
+export interface MenuConflictResponse {
+  error: string;
+  conflicts: MenuConflict[];
+}
+
+// A saved version of the menu, with what changed from the one before it
+export interface MenuRevisionSummary {
+  id: string;
+  createdAt: string;
+  // null for the menu as it was before history was recorded
+  author: { id: string; name: string } | null;
+  summary: string;
+  changes: MenuItemChange[];
+}
@@ -0,0 +1,104 @@
+// Shared order contract between the storefront and the order API.
+
+export interface OrderItem {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  specialInstructions?: string;
+  customizations?: string[];
+}
+
+export type OrderStatus = 'pending' | 'completed' | 'cancelled' | 'preparing' | 'ready';
+export type PaymentStatus = 'pending' | 'paid' | 'refunded';
+export type PaymentMethod = 'zelle' | 'cash';
+export type OrderPriority = 'normal' | 'high' | 'urgent';
+
+export interface Order {
+  id: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  inStockItems: OrderItem[];
+  madeToOrderItems: OrderItem[];
+  // Calendar day "yyyy-MM-dd" in the bakery's timezone
+  inStockPickupDate?: string;
+  inStockPickupTime?: string;
+  madeToOrderPickupDate?: string;
+  madeToOrderPickupTime?: string;
+  status: OrderStatus;
+  total: number;
+  // ISO timestamps
+  createdAt: string;
+  specialInstructions?: string;
+  notes?: string;
+  paymentStatus: PaymentStatus;
+  paymentMethod?: PaymentMethod;
+  orderType: 'pickup';
+  estimatedCompletionTime?: string;
+  actualCompletionTime?: string;
+  priority: OrderPriority;
+  // Secret in the customer's manage link; orders placed before self-service have none
+  manageToken?: string;
+  // Oldest first, never rewritten
+  history?: OrderEvent[];
+}
+
+// Who made a change to an order
+export interface OrderActor {
+  kind: 'customer' | 'staff';
+  name: string;
+  // Staff user id
+  id?: string;
+}
+
+export type OrderEventType = 'created' | 'status-changed' | 'payment-recorded' | 'refunded' | 'note-added' | 'edited';
+
+// One entry in an order's audit trail. summary is ready to show; for note-added
+// it is the note itself.
+export interface OrderEvent {
+  at: string;
+  actor: OrderActor;
+  type: OrderEventType;
+  summary: string;
+}
+
+// Payload accepted when a customer places an order
+export type NewOrder = Omit<Order, 'id' | 'createdAt' | 'status' | 'paymentStatus' | 'priority' | 'manageToken' | 'history'>;
+
+// Fields an admin may change on an existing order
+export type OrderUpdate = Partial<Pick<Order, 'status' | 'notes' | 'paymentStatus' | 'paymentMethod' | 'priority'>>;
+
+// What a customer sees when looking up their own order: no contact details or staff-only fields
+export type CustomerOrderView = Pick<Order,
+  | 'id' | 'customerName' | 'inStockItems' | 'madeToOrderItems'
+  | 'inStockPickupDate' | 'inStockPickupTime' | 'madeToOrderPickupDate' | 'madeToOrderPickupTime'
+  | 'status' | 'total' | 'createdAt' | 'specialInstructions' | 'notes' | 'paymentStatus' | 'paymentMethod'>;
+
+// A customer's order as seen from their manage link
+export interface SelfServiceOrder extends CustomerOrderView {
+  // Why the order can no longer be changed online; null while it still can
+  lockedReason: string | null;
+}
+
+// What a customer may change from their manage link. quantities is keyed by item
+// id and only covers items already on the order; 0 removes the item.
+export interface CustomerOrderChange {
+  quantities: Record<string, number>;
+  inStockPickupDate?: string;
+  inStockPickupTime?: string;
+  madeToOrderPickupDate?: string;
+  madeToOrderPickupTime?: string;
+}
+
+// An email sent, or attempted, to the customer when their order changed status
+export interface OrderNotification {
+  id: string;
+  orderId: string;
+  status: OrderStatus;
+  to: string;
+  subject: string;
+  sentAt: string;
+  // Why the mail transport refused it; absent when it was sent
+  error?: string;
+}
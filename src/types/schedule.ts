@@ -0,0 +1,63 @@
+// Shared pickup schedule contract between the order page, the admin UI and the API.
+
+// 0 = Sunday ... 6 = Saturday, as Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Times are "HH:mm" on the 24-hour clock
+export interface PickupWindow {
+  weekday: Weekday;
+  start: string;
+  end: string;
+}
+
+export interface OrderDeadline {
+  weekday: Weekday;
+  time: string;
+}
+
+export interface PickupRules {
+  windows: PickupWindow[];
+  // Whole days between ordering and the earliest pickup
+  leadDays: number;
+  // Orders for a pickup day close at the last deadline before it
+  orderDeadline: OrderDeadline | null;
+  // Orders per pickup time and items per day; null for no limit
+  slotCapacity: number | null;
+  dailyCapacity: number | null;
+}
+
+export type PickupKind = 'inStock' | 'madeToOrder';
+
+// A holiday closure or a day with different hours. Special hours replace the
+// regular window on days that already have pickup; they don't open closed days.
+export interface ScheduleException {
+  // "yyyy-MM-dd"
+  date: string;
+  // null when the bakery is closed all day
+  hours: { start: string; end: string } | null;
+  note: string;
+}
+
+// Replaces the usual capacity of one pickup time, or of the whole day when time is null
+export interface CapacityOverride {
+  date: string;
+  kind: PickupKind;
+  time: string | null;
+  capacity: number;
+}
+
+export interface PickupSchedule {
+  // IANA timezone the windows and deadlines are read in, e.g. "America/Detroit"
+  timezone: string;
+  slotMinutes: number;
+  inStock: PickupRules;
+  madeToOrder: PickupRules;
+  exceptions: ScheduleException[];
+  capacityOverrides: CapacityOverride[];
+}
+
+// Orders booked per pickup time and items per pickup day, keyed by pickupSlotKey/pickupDayKey
+export interface PickupLoad {
+  slots: Record<string, number>;
+  days: Record<string, number>;
+}
@@ -0,0 +1,43 @@
+// Shared stock ledger contract between the inventory page and the API.
+
+// Units of an item baked on the same day
+export interface StockBatch {
+  bakedOn: string;
+  quantity: number;
+}
+
+export type StockMovementReason = 'baked' | 'sold' | 'returned' | 'wasted' | 'given-away' | 'correction';
+
+// One change to an in-stock item's count. Quantity is signed: positive adds stock.
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  itemName: string;
+  reason: StockMovementReason;
+  quantity: number;
+  // The item's stock once this movement was applied
+  stockAfter: number;
+  actor: { name: string; id?: string };
+  // Set for stock taken or given back by an order
+  orderId?: string;
+  // The dated batches it added to or took from
+  batches?: StockBatch[];
+  note?: string;
+  at: string;
+}
+
+// What staff record from the inventory page. Corrections give the counted
+// stock; everything else gives how many were baked, wasted or given away.
+// Baked stock is dated today unless bakedOn says otherwise.
+export type StockAdjustment =
+  | { reason: 'correction'; count: number; note?: string }
+  | { reason: 'baked'; quantity: number; bakedOn?: string; note?: string }
+  | { reason: 'wasted' | 'given-away'; quantity: number; note?: string };
+
+// The ledger's view of an item next to what the menu store says
+export interface StockLedger {
+  movements: StockMovement[];
+  // stockAfter of the latest movement; null before the first one
+  ledgerStock: number | null;
+  menuStock: number;
+}
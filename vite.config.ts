@@ -7,6 +7,10 @@ export default defineConfig({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Order API (npm run server)
+      "/api": "http://localhost:3001",
+    },
   },
   plugins: [react()],
   resolve: {